@@ -1,21 +1,96 @@
-import { Editor, normalizePath, Notice, Plugin, requestUrl } from 'obsidian';
-import { fetchEmotesForTwitchId } from './src/api';
+import { EditorView } from '@codemirror/view';
+import {
+	debounce,
+	Editor,
+	MarkdownView,
+	Menu,
+	normalizePath,
+	Notice,
+	Plugin,
+	requestUrl,
+	TAbstractFile,
+	TFile,
+	TFolder
+} from 'obsidian';
+import {
+	EmoteSearchOptions,
+	EmoteSearchResult,
+	fetchSevenTVEmoteSetSummary,
+	resolveTwitchUser,
+	searchSevenTVEmotes
+} from './src/api';
+import { CacheFillQueue } from './src/CacheFillQueue';
 import { DownloadProgressTracker } from './src/DownloadProgressTracker';
+import {
+	EMOTE_MARKUP_FORMATS,
+	EmoteMarkupFormat,
+	EmoteShortcodeMatch,
+	formatEmoteEmbed,
+	formatEmoteShortcode,
+	parseEmoteMarkup,
+	ParsedEmoteMarkup
+} from './src/emoteMarkup';
+import { EmoteFormatMigrationModal } from './src/EmoteFormatMigrationModal';
+import { describeRewriteReport, EmoteMarkupRewriter } from './src/EmoteMarkupRewriter';
+import { EmotePickerModal } from './src/EmotePickerModal';
+import { EmotePostProcessor } from './src/EmotePostProcessor';
+import { EmoteRenderer } from './src/EmoteRenderer';
+import { EmoteRewritePreviewModal } from './src/EmoteRewritePreviewModal';
+import { EmoteSearchModal } from './src/EmoteSearchModal';
+import { configureEndpoints } from './src/endpoints';
+import { ApiError, describeApiError, describeLoadFailures } from './src/errors';
+import { EmoteSnapshotStore, SnapshotInfo } from './src/EmoteSnapshotStore';
 import { buildEmoteEditorExtension } from './src/EmoteEditorExtension';
 import { EmoteSuggest } from './src/EmoteSuggest';
+import { insertAtTrackedPoint, insertionPointField, trackInsertionPoint } from './src/insertionPoints';
+import { getLocalImageFormat, isInLocalEmoteFolder, loadLocalEmotes } from './src/localEmotes';
+import { NoteEmoteScopes } from './src/NoteEmoteScopes';
 import { PluginLogger } from './src/logger';
+import {
+	EmoteFile,
+	getEmoteProvider,
+	getEmoteVariants,
+	getGlobalSourceId,
+	getGlobalSourceLabel,
+	getImageFormats,
+	IMAGE_FORMAT_MIME_TYPES
+} from './src/providers';
 import { SettingsTab } from './src/SettingsTab';
 import {
+	createEmoteRecord,
 	createNoCacheEmoteHtml,
-	createOnDemandEmoteHtml
+	createOnDemandEmoteHtml,
+	createSourceId,
+	TwitchUserReference
 } from './src/utils';
 import {
 	DEFAULT_SETTINGS,
+	EmoteProviderId,
+	EmoteLoadFailure,
+	EmoteRecord,
+	EmoteRef,
+	EmoteSetSummary,
+	EmoteSize,
+	EmoteSourceConfig,
+	EmoteUsage,
+	FetchedEmoteSet,
+	ImageFormat,
+	LoadedEmoteSet,
 	LogLevel,
+	ResolvedEmote,
+	ResolvedTwitchUser,
 	SevenTVSettings,
 	StreamerDefinition
 } from './src/types';
 
+const MAX_RECENT_EMOTES = 40;
+const MAX_TRACKED_EMOTES = 500;
+// Moving a folder of images fires one event per file, so reloads wait for a pause.
+const LOCAL_EMOTE_RELOAD_DELAY_MS = 300;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+// A rough average for one cached image, used to estimate pre-cache downloads.
+const ESTIMATED_BYTES_PER_FILE = 50 * 1024;
+
 export default class SevenTVPlugin extends Plugin {
 	settings: SevenTVSettings = DEFAULT_SETTINGS;
 
@@ -23,17 +98,30 @@ export default class SevenTVPlugin extends Plugin {
 	private emoteSuggest!: EmoteSuggest;
 	private logger!: PluginLogger;
 	private downloadTracker!: DownloadProgressTracker;
+	private snapshotStore!: EmoteSnapshotStore;
+	private emoteRenderer!: EmoteRenderer;
+	private cacheFillQueue!: CacheFillQueue;
+	private noteScopes!: NoteEmoteScopes;
 	private activeDownloadPromise: Promise<void> | null = null;
 	private preCacheComplete = false;
 	private abortController: AbortController | null = null;
 	private readonly stateListeners = new Set<() => void>();
 	private startupRefreshInFlight = false;
 	private readonly pendingTimeouts = new Set<number>();
+	private readonly loadedSets = new Map<string, LoadedEmoteSet>();
+	private localEmotes: LoadedEmoteSet | null = null;
+	private emotesRefreshedThisSession = false;
+	private readonly sourceErrors = new Map<string, unknown>();
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
+		this.applyEndpointSettings();
 		this.logger = new PluginLogger(() => this.settings.logLevel);
 		this.downloadTracker = new DownloadProgressTracker(this, () => this.notifyStateChange());
+		this.snapshotStore = new EmoteSnapshotStore(this);
+		this.emoteRenderer = new EmoteRenderer(this);
+		this.cacheFillQueue = new CacheFillQueue(this.logger);
+		this.noteScopes = new NoteEmoteScopes(this);
 
 		this.register(() => this.downloadTracker.cleanup());
 		this.register(() => this.abortController?.abort());
@@ -57,17 +145,35 @@ export default class SevenTVPlugin extends Plugin {
 		this.emoteSuggest = new EmoteSuggest(this.app, this);
 		this.registerEditorSuggest(this.emoteSuggest);
 		this.registerEditorExtension(buildEmoteEditorExtension(this));
-
-		const activeId = this.getActiveTwitchId();
-		if (activeId) {
-			void this.refreshEmotesOnStartup(activeId, true);
-			this.registerDomEvent(window, 'online', () => {
-				if (this.getEmoteCount() > 0) {
-					return;
-				}
-				void this.refreshEmotesOnStartup(activeId, false);
-			});
+		this.registerEditorExtension(insertionPointField);
+		const postProcessor = new EmotePostProcessor(this);
+		this.registerMarkdownPostProcessor((element) => postProcessor.process(element));
+		await this.restoreSnapshot();
+		// The vault reports every existing file as created while it loads,
+		// so local emotes are read and watched once the layout is ready.
+		this.app.workspace.onLayoutReady(() => {
+			this.reloadLocalEmotes();
+			this.registerLocalEmoteWatcher();
+		});
+		// Start loading a scoped note's emotes as soon as it opens, so they
+		// are usually ready by the time you type.
+		this.registerEvent(this.app.workspace.on('file-open', (file) => {
+			this.noteScopes.getLoadedSet(file);
+		}));
+
+		if (this.hasActiveSources()) {
+			void this.refreshEmotesOnStartup(true);
 		}
+		// Captured so right-clicking an emote in the editor does not also open
+		// the editor's own menu.
+		this.registerDomEvent(document, 'contextmenu', (event) => this.showEmoteContextMenu(event), { capture: true });
+		this.registerDomEvent(window, 'online', () => {
+			this.cacheFillQueue.resume();
+			if (this.emotesRefreshedThisSession || !this.hasActiveSources()) {
+				return;
+			}
+			void this.refreshEmotesOnStartup(false);
+		});
 
 		this.addCommand({
 			id: 'cancel-pre-cache',
@@ -93,12 +199,53 @@ export default class SevenTVPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'search-7tv-emotes',
+			name: 'Search all 7TV emotes',
+			editorCallback: (editor: Editor) => {
+				new EmoteSearchModal(this.app, this, editor).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-emote-picker',
+			name: 'Open emote picker',
+			editorCallback: (editor: Editor) => {
+				new EmotePickerModal(this.app, this, editor).open();
+			}
+		});
+		this.addRibbonIcon('smile', 'Open emote picker', () => {
+			const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+			if (!editor) {
+				new Notice('Open a note to insert emotes');
+				return;
+			}
+			new EmotePickerModal(this.app, this, editor).open();
+		});
+
+		this.addCommand({
+			id: 'repair-emote-markup',
+			name: 'Repair emote markup in all notes',
+			callback: () => {
+				void this.repairEmoteMarkup();
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-emote-format',
+			name: 'Convert emote format in notes...',
+			callback: () => {
+				new EmoteFormatMigrationModal(this.app, this, this.app.workspace.getActiveFile()).open();
+			}
+		});
+
 		this.addSettingTab(new SettingsTab(this.app, this));
 		this.logMessage('Plugin loaded successfully', 'basic');
 	}
 
 	onunload(): void {
 		this.cancelPreCache();
+		this.cacheFillQueue?.stop();
 		this.logMessage('Plugin unloaded', 'basic');
 	}
 
@@ -115,15 +262,180 @@ export default class SevenTVPlugin extends Plugin {
 		return new Map(this.settings.builtInStreamers.map((s) => [s.internalKey, s.twitchId]));
 	}
 
-	getActiveTwitchId(): string | null {
-		const manualId = this.settings.twitchUserId.trim();
-		if (manualId) {
-			return manualId;
+	getEnabledSources(): EmoteSourceConfig[] {
+		return this.settings.emoteSources.filter((source) => source.enabled);
+	}
+
+	hasActiveSources(): boolean {
+		return this.settings.includeGlobalEmotes || this.getEnabledSources().length > 0;
+	}
+
+	hasSourceForTwitchId(twitchId: string, provider?: EmoteProviderId): boolean {
+		return this.settings.emoteSources.some((source) =>
+			source.kind === 'twitch' &&
+			source.twitchId === twitchId &&
+			(!provider || source.provider === provider)
+		);
+	}
+
+	hasSourceForEmoteSet(emoteSetId: string): boolean {
+		return this.settings.emoteSources.some((source) =>
+			source.kind === 'emote-set' && source.emoteSetId === emoteSetId
+		);
+	}
+
+	async listUserEmoteSets(source: EmoteSourceConfig): Promise<EmoteSetSummary[]> {
+		const provider = getEmoteProvider(source.provider);
+		if (source.kind !== 'twitch' || !provider.listUserEmoteSets) {
+			return [];
+		}
+		return provider.listUserEmoteSets(source.twitchId, this.logger);
+	}
+
+	/**
+	 * Drops a loaded set so the next sync fetches it again.
+	 */
+	invalidateEmoteSource(sourceId: string): void {
+		this.loadedSets.delete(sourceId);
+	}
+
+	async resolveTwitchUser(reference: TwitchUserReference): Promise<ResolvedTwitchUser> {
+		return resolveTwitchUser(reference, this.logger);
+	}
+
+	async searchEmotes(options: EmoteSearchOptions): Promise<EmoteSearchResult> {
+		return searchSevenTVEmotes(options, this.logger);
+	}
+
+	async fetchChannelEmotes(providerId: EmoteProviderId, twitchId: string): Promise<FetchedEmoteSet> {
+		return getEmoteProvider(providerId).fetchChannelEmotes(twitchId, this.logger);
+	}
+
+	/**
+	 * The emote set a note is scoped to through its frontmatter or folder,
+	 * once loaded. See `NoteEmoteScopes`.
+	 */
+	getScopedEmoteSet(file: TFile | null): LoadedEmoteSet | null {
+		return this.noteScopes?.getLoadedSet(file) ?? null;
+	}
+
+	/**
+	 * Forgets the sets loaded for scoped notes, so they are fetched again
+	 * with the current settings the next time a note needs them.
+	 */
+	clearScopedEmoteSets(): void {
+		this.noteScopes?.clear();
+	}
+
+	async fetchEmoteSetSummary(emoteSetId: string): Promise<EmoteSetSummary> {
+		return fetchSevenTVEmoteSetSummary(emoteSetId, this.logger);
+	}
+
+	/**
+	 * Global sets are offered for 7TV and for every other provider that at
+	 * least one enabled source uses.
+	 */
+	getActiveGlobalProviders(): EmoteProviderId[] {
+		if (!this.settings.includeGlobalEmotes) {
+			return [];
 		}
-		if (!this.settings.selectedStreamerId) {
-			return null;
+		const providers = new Set<EmoteProviderId>(['7tv']);
+		for (const source of this.getEnabledSources()) {
+			providers.add(source.provider);
 		}
-		return this.getStreamerIdMap().get(this.settings.selectedStreamerId) ?? null;
+		return Array.from(providers);
+	}
+
+	/**
+	 * The error from the most recent failed fetch of a source, cleared once
+	 * the source loads successfully again.
+	 */
+	getSourceError(sourceId: string): unknown {
+		return this.sourceErrors.get(sourceId) ?? null;
+	}
+
+	getLoadedSetSize(sourceId: string): number | null {
+		return this.loadedSets.get(sourceId)?.emotes.size ?? null;
+	}
+
+	getSnapshotInfo(): SnapshotInfo | null {
+		return this.snapshotStore?.getInfo() ?? null;
+	}
+
+	/**
+	 * Turns a vault-relative cache path stored in a note into a resource URL
+	 * that works on this device, or null when the file is not cached here.
+	 */
+	resolveCacheResourceUrl(cachePath: string): string | null {
+		const file = this.app.vault.getFileByPath(normalizePath(cachePath));
+		return file ? this.app.vault.getResourcePath(file) : null;
+	}
+
+	/**
+	 * A pinned shortcode resolves to the loaded emote with that ID, or to a
+	 * bare record when no loaded set contains it. A plain `:name:` resolves
+	 * through the loaded sets only.
+	 */
+	resolveShortcode(shortcode: EmoteShortcodeMatch): EmoteRecord | null {
+		if (shortcode.ref) {
+			return this.emoteSuggest?.findEmoteById(shortcode.ref)
+				?? createEmoteRecord(shortcode.ref.provider, shortcode.ref.id, shortcode.name);
+		}
+		return this.getEmoteMap().get(shortcode.name) ?? null;
+	}
+
+	getEmoteRenderer(): EmoteRenderer {
+		return this.emoteRenderer;
+	}
+
+	getCachePath(emote: EmoteRef, resolution: EmoteSize = 1, format?: ImageFormat): string {
+		if (emote.provider === 'local') {
+			return emote.id;
+		}
+		const fileName = getEmoteProvider(emote.provider).getCacheFileName(emote.id, resolution, format);
+		return normalizePath(`${this.CACHE_DIR}/${fileName}`);
+	}
+
+	/**
+	 * Every resolution an emote shown at `size` uses, each with its CDN URL
+	 * and cache path. Each resolution and format is cached as its own file.
+	 * Defaults to the best format for the image format setting. A local emote
+	 * is a single vault file with no CDN URL.
+	 */
+	getEmoteFiles(emote: EmoteRecord, size: EmoteSize, format = this.getImageFormats(emote)[0]): EmoteFile[] {
+		if (emote.provider === 'local') {
+			return [{ resolution: 1, density: 1, format, cdnUrl: '', cachePath: emote.id }];
+		}
+		const provider = getEmoteProvider(emote.provider);
+		return getEmoteVariants(emote.provider, size).map((variant) => ({
+			...variant,
+			format,
+			cdnUrl: provider.buildCdnUrl(emote.id, variant.resolution, format),
+			cachePath: this.getCachePath(emote, variant.resolution, format)
+		}));
+	}
+
+	/**
+	 * Downloads whichever of an emote's files are missing in the background,
+	 * for emotes that were displayed from the CDN. Does nothing when caching
+	 * is off or for local emotes, which have nothing to download.
+	 */
+	queueCacheFill(emote: EmoteRecord, size: EmoteSize): void {
+		if (this.settings.cacheStrategy === 'no-cache' || emote.provider === 'local') {
+			return;
+		}
+		for (const file of this.getEmoteFiles(emote, size)) {
+			if (!this.pathExists(file.cachePath)) {
+				this.cacheFillQueue.enqueue(file.cachePath, () => this.downloadToCache(emote.id, file.cdnUrl, file.cachePath));
+			}
+		}
+	}
+
+	getImageFormats(emote: EmoteRecord): ImageFormat[] {
+		if (emote.provider === 'local') {
+			return [getLocalImageFormat(emote.id)];
+		}
+		return getImageFormats(emote.provider, this.settings.imageFormat, emote.animated);
 	}
 
 	getCacheDir(): string {
@@ -134,10 +446,56 @@ export default class SevenTVPlugin extends Plugin {
 		return this.emoteSuggest?.getEmoteCount() ?? 0;
 	}
 
-	getEmoteMap(): Map<string, string> {
+	getEmoteMap(): Map<string, ResolvedEmote> {
 		return this.emoteSuggest?.getEmoteMap() ?? new Map();
 	}
 
+	/**
+	 * Roughly how much pre-caching `emotes` downloads. Each emote can have
+	 * more than one file, such as a 2x image for HiDPI screens.
+	 */
+	estimatePreCacheBytes(emotes: Iterable<EmoteRecord> = this.getEmoteMap().values()): number {
+		let fileCount = 0;
+		for (const emote of emotes) {
+			if (emote.provider !== 'local') {
+				fileCount += getEmoteVariants(emote.provider, this.settings.emoteSize).length;
+			}
+		}
+		return fileCount * ESTIMATED_BYTES_PER_FILE;
+	}
+
+	findEmoteById(ref: EmoteRef): ResolvedEmote | null {
+		return this.emoteSuggest?.findEmoteById(ref) ?? null;
+	}
+
+	/**
+	 * An image URL for showing the emote in lists such as suggestions and
+	 * the picker: the CDN for provider emotes, the vault file for local ones.
+	 */
+	getEmotePreviewUrl(emote: EmoteRef, size: EmoteSize = 1): string {
+		if (emote.provider === 'local') {
+			return this.resolveCacheResourceUrl(emote.id) ?? '';
+		}
+		return getEmoteProvider(emote.provider).buildCdnUrl(emote.id, size);
+	}
+
+	/**
+	 * Rereads the local emote folder. Called when the folder setting changes
+	 * and whenever an image in it is added, renamed or deleted.
+	 */
+	reloadLocalEmotes(): void {
+		const folder = this.settings.localEmoteFolder;
+		this.localEmotes = folder ? loadLocalEmotes(this.app.vault, folder) : null;
+		if (this.localEmotes) {
+			this.logMessage(`Loaded ${this.localEmotes.emotes.size} local emotes from ${folder}`, 'verbose');
+		}
+		this.rebuildEmoteIndex();
+	}
+
+	getLocalEmoteCount(): number {
+		return this.localEmotes?.emotes.size ?? 0;
+	}
+
 	logMessage(message: string, level: LogLevel = 'basic'): void {
 		this.logger?.log(message, level);
 	}
@@ -151,32 +509,110 @@ export default class SevenTVPlugin extends Plugin {
 		return this.preCacheComplete;
 	}
 
-	async refreshEmotesForUser(twitchId: string): Promise<void> {
-		this.logMessage(`Fetching emotes for Twitch ID: ${twitchId}`, 'basic');
-		const emoteMap = await fetchEmotesForTwitchId(twitchId, this.logger);
-		this.emoteSuggest.updateEmoteMap(emoteMap);
+	/**
+	 * Refetches every enabled source, replacing whatever was loaded before.
+	 * Sets for scoped notes are fetched again the next time a note needs them.
+	 */
+	async reloadEmoteSources(): Promise<EmoteLoadFailure[]> {
+		this.clearScopedEmoteSets();
+		const sources = this.getEnabledSources();
+		const results = await Promise.all([
+			...sources.map((source) => this.loadEmoteSource(source)),
+			...this.getActiveGlobalProviders().map((provider) => this.loadGlobalEmotes(provider))
+		]);
+		this.rebuildEmoteIndex();
+		await this.snapshotStore.save(Array.from(this.loadedSets.values()));
+		return results.filter((failure): failure is EmoteLoadFailure => failure !== null);
+	}
 
-		if (emoteMap.size === 0) {
-			this.logger.warn(`No emotes found for user ${twitchId}`);
+	/**
+	 * Brings the loaded sets in line with the configured sources after they
+	 * were added, removed, toggled or reordered. Only enabled sources that
+	 * have not been loaded yet are fetched.
+	 */
+	async syncEmoteSources(): Promise<EmoteLoadFailure[]> {
+		const configuredIds = new Set(this.settings.emoteSources.map((source) => source.id));
+		for (const [sourceId, set] of Array.from(this.loadedSets.entries())) {
+			if (!set.isGlobal && !configuredIds.has(sourceId)) {
+				this.loadedSets.delete(sourceId);
+			}
+		}
+		for (const sourceId of Array.from(this.sourceErrors.keys())) {
+			if (!configuredIds.has(sourceId) && !sourceId.startsWith('global:')) {
+				this.sourceErrors.delete(sourceId);
+			}
+		}
+
+		const missing = this.getEnabledSources().filter((source) => this.isLoadedSetStale(source));
+		const missingGlobals = this.getActiveGlobalProviders().filter((provider) =>
+			!this.loadedSets.has(getGlobalSourceId(provider))
+		);
+		const results = await Promise.all([
+			...missing.map((source) => this.loadEmoteSource(source)),
+			...missingGlobals.map((provider) => this.loadGlobalEmotes(provider))
+		]);
+		this.rebuildEmoteIndex();
+		await this.snapshotStore.save(Array.from(this.loadedSets.values()));
+		return results.filter((failure): failure is EmoteLoadFailure => failure !== null);
+	}
+
+	async insertEmoteByStrategy(
+		editor: Editor,
+		emote: EmoteRecord,
+		size: EmoteSize = this.settings.emoteSize
+	): Promise<void> {
+		if (this.settings.insertionFormat === 'embed') {
+			await this.insertEmoteEmbed(editor, emote, size);
 		} else {
-			this.logMessage(`Loaded ${emoteMap.size} emotes`, 'basic');
+			if (this.settings.insertionFormat === 'shortcode') {
+				editor.replaceSelection(this.formatShortcode(emote, size));
+			} else {
+				editor.replaceSelection(this.createEmoteMarkup(emote, size));
+			}
+			if (this.settings.cacheStrategy === 'on-demand') {
+				this.scheduleOnDemandCache(emote, size);
+			}
 		}
+		await this.recordEmoteUse(emote);
+	}
 
-		this.preCacheComplete = false;
-		this.notifyStateChange();
+	/**
+	 * Recently inserted emotes that are still loaded, most recent first.
+	 */
+	getRecentEmotes(): ResolvedEmote[] {
+		const recent = [...this.settings.emoteUsage]
+			.sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+			.slice(0, MAX_RECENT_EMOTES);
+		return this.resolveEmoteRefs(recent);
 	}
 
-	async insertEmoteByStrategy(editor: Editor, name: string, id: string): Promise<void> {
-		if (this.settings.cacheStrategy === 'no-cache') {
-			editor.replaceSelection(createNoCacheEmoteHtml(name, id));
-			return;
+	getFavoriteEmotes(): ResolvedEmote[] {
+		return this.resolveEmoteRefs(this.settings.favoriteEmotes);
+	}
+
+	isFavoriteEmote(emote: EmoteRef): boolean {
+		return this.settings.favoriteEmotes.some((favorite) => isSameEmote(favorite, emote));
+	}
+
+	async toggleFavoriteEmote(emote: EmoteRef): Promise<void> {
+		const favorites = this.settings.favoriteEmotes.filter((favorite) => !isSameEmote(favorite, emote));
+		if (favorites.length === this.settings.favoriteEmotes.length) {
+			favorites.push({ id: emote.id, provider: emote.provider });
 		}
+		this.settings.favoriteEmotes = favorites;
+		await this.saveSettings();
+	}
 
-		await this.insertWithOnDemandCache(editor, name, id);
+	/**
+	 * The markup the current cache strategy inserts for an emote. It does not
+	 * depend on the device, so notes stay identical across synced vaults.
+	 */
+	createEmoteMarkup(emote: EmoteRecord, size: EmoteSize = 1): string {
+		return this.formatEmote(emote, this.settings.cacheStrategy === 'no-cache' ? 'span' : 'picture', size);
 	}
 
 	async ensureCacheInitialized(): Promise<void> {
-		if (this.settings.cacheStrategy === 'no-cache') {
+		if (this.settings.cacheStrategy === 'no-cache' && this.settings.insertionFormat !== 'embed') {
 			return;
 		}
 		await this.initializeCache();
@@ -234,6 +670,26 @@ export default class SevenTVPlugin extends Plugin {
 		const data = await this.loadData();
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
 		this.settings.builtInStreamers = this.settings.builtInStreamers ?? [];
+		this.settings.emoteSources = (this.settings.emoteSources ?? []).map((source) => ({
+			...source,
+			kind: source.kind ?? 'twitch',
+			provider: source.provider ?? '7tv',
+			emoteSetId: source.emoteSetId ?? '',
+			emoteSetName: source.emoteSetName ?? ''
+		}));
+		// Copied so edits never reach the arrays shared with DEFAULT_SETTINGS.
+		this.settings.emoteAliases = [...(this.settings.emoteAliases ?? [])];
+		this.settings.favoriteEmotes = [...(this.settings.favoriteEmotes ?? [])];
+		this.settings.emoteUsage = [...(this.settings.emoteUsage ?? [])];
+		this.settings.folderEmoteSources = (this.settings.folderEmoteSources ?? []).map((mapping) => ({ ...mapping }));
+		this.migrateLegacySource(data);
+	}
+
+	applyEndpointSettings(): void {
+		configureEndpoints({
+			apiBaseUrl: this.settings.apiBaseUrl,
+			cdnBaseUrl: this.settings.cdnBaseUrl
+		});
 	}
 
 	async saveSettings(): Promise<void> {
@@ -251,6 +707,220 @@ export default class SevenTVPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Settings from before multi-source support stored a single Twitch ID and
+	 * streamer key. Turn that selection into the first entry of the source list.
+	 */
+	private migrateLegacySource(data: Record<string, unknown> | null): void {
+		if (!data || !('twitchUserId' in data || 'selectedStreamerId' in data)) {
+			return;
+		}
+
+		const legacy = this.settings as SevenTVSettings & { twitchUserId?: string; selectedStreamerId?: string };
+		const twitchId = (legacy.twitchUserId ?? '').trim() ||
+			(legacy.selectedStreamerId ? this.getStreamerIdMap().get(legacy.selectedStreamerId) ?? '' : '');
+		if (twitchId && !this.hasSourceForTwitchId(twitchId)) {
+			const label = legacy.selectedStreamerId
+				? this.getStreamerDisplayMap().get(legacy.selectedStreamerId) ?? twitchId
+				: twitchId;
+			this.settings.emoteSources.push({
+				id: createSourceId(),
+				kind: 'twitch',
+				label,
+				provider: '7tv',
+				twitchId,
+				emoteSetId: '',
+				emoteSetName: '',
+				enabled: true
+			});
+		}
+
+		delete legacy.twitchUserId;
+		delete legacy.selectedStreamerId;
+	}
+
+	private isLoadedSetStale(source: EmoteSourceConfig): boolean {
+		const loaded = this.loadedSets.get(source.id);
+		if (!loaded || loaded.provider !== source.provider) {
+			return true;
+		}
+		return !!source.emoteSetId && loaded.setId !== source.emoteSetId;
+	}
+
+	/**
+	 * Resolves to the failure instead of throwing so one broken source does
+	 * not stop the others from loading. The previously loaded set is kept.
+	 */
+	private async loadEmoteSource(source: EmoteSourceConfig): Promise<EmoteLoadFailure | null> {
+		const provider = getEmoteProvider(source.provider);
+		let fetched: FetchedEmoteSet;
+		try {
+			if (source.kind === 'emote-set') {
+				if (!provider.fetchEmoteSet) {
+					throw new Error(`${provider.displayName} does not support emote set sources`);
+				}
+				this.logMessage(`Fetching ${provider.displayName} emote set ${source.emoteSetId} for ${source.label}`, 'basic');
+				fetched = await provider.fetchEmoteSet(source.emoteSetId, this.logger);
+			} else {
+				this.logMessage(`Fetching ${provider.displayName} emotes for ${source.label} (Twitch ID: ${source.twitchId})`, 'basic');
+				fetched = await provider.fetchChannelEmotes(source.twitchId, this.logger, source.emoteSetId || undefined);
+			}
+		} catch (error) {
+			return this.recordLoadFailure(source.id, source.label, error);
+		}
+
+		if (fetched.emotes.size === 0) {
+			this.logger.warn(`No emotes found for ${source.label}`);
+		} else {
+			this.logMessage(`Loaded ${fetched.emotes.size} emotes for ${source.label}`, 'basic');
+		}
+
+		this.storeFetchedSet(fetched, {
+			sourceId: source.id,
+			label: source.label,
+			provider: provider.id,
+			isGlobal: false
+		});
+		return null;
+	}
+
+	private async loadGlobalEmotes(providerId: EmoteProviderId): Promise<EmoteLoadFailure | null> {
+		const provider = getEmoteProvider(providerId);
+		const sourceId = getGlobalSourceId(provider.id);
+		this.logMessage(`Fetching ${provider.displayName} global emotes`, 'basic');
+		let fetched: FetchedEmoteSet;
+		try {
+			fetched = await provider.fetchGlobalEmotes(this.logger);
+		} catch (error) {
+			return this.recordLoadFailure(sourceId, getGlobalSourceLabel(provider.id), error);
+		}
+		this.logMessage(`Loaded ${fetched.emotes.size} ${provider.displayName} global emotes`, 'basic');
+
+		this.storeFetchedSet(fetched, {
+			sourceId,
+			label: getGlobalSourceLabel(provider.id),
+			provider: provider.id,
+			isGlobal: true
+		});
+		return null;
+	}
+
+	private recordLoadFailure(sourceId: string, label: string, error: unknown): EmoteLoadFailure {
+		this.sourceErrors.set(sourceId, error);
+		const keeping = this.loadedSets.has(sourceId) ? ' Keeping previously loaded emotes.' : '';
+		this.logger.warn(`Failed to load emotes for ${label}: ${describeApiError(error)}.${keeping}`);
+		return { sourceId, label, error };
+	}
+
+	private storeFetchedSet(
+		fetched: FetchedEmoteSet,
+		meta: Pick<LoadedEmoteSet, 'sourceId' | 'label' | 'provider' | 'isGlobal'>
+	): void {
+		this.sourceErrors.delete(meta.sourceId);
+		this.loadedSets.set(meta.sourceId, {
+			...meta,
+			setId: fetched.setId,
+			fetchedAt: Date.now(),
+			emotes: fetched.emotes
+		});
+	}
+
+	private async restoreSnapshot(): Promise<void> {
+		const sets = await this.snapshotStore.load();
+		if (sets.length === 0) {
+			return;
+		}
+
+		for (const set of sets) {
+			this.loadedSets.set(set.sourceId, set);
+		}
+		this.rebuildEmoteIndex();
+		this.logMessage(`Restored ${sets.length} emote sets from snapshot`, 'basic');
+	}
+
+	/**
+	 * Keeps local emotes in step with their folder. Renaming an image also
+	 * moves its favorite, usage and alias entries to the new path, and
+	 * renaming the folder itself updates the setting.
+	 */
+	private registerLocalEmoteWatcher(): void {
+		const reload = debounce(() => this.reloadLocalEmotes(), LOCAL_EMOTE_RELOAD_DELAY_MS, true);
+		const onChange = (file: TAbstractFile, oldPath?: string) => {
+			const folder = this.settings.localEmoteFolder;
+			if (isInLocalEmoteFolder(file.path, folder) || (oldPath && isInLocalEmoteFolder(oldPath, folder))) {
+				reload();
+			}
+		};
+		this.registerEvent(this.app.vault.on('create', (file) => onChange(file)));
+		this.registerEvent(this.app.vault.on('delete', (file) => onChange(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			const folder = this.settings.localEmoteFolder;
+			if (isInLocalEmoteFolder(oldPath, folder)) {
+				// Refs move first, while the folder setting still matches their old paths.
+				let changed = this.moveLocalEmoteRefs(oldPath, file.path);
+				if (file instanceof TFolder && oldPath === folder) {
+					this.settings.localEmoteFolder = file.path;
+					changed = true;
+				}
+				if (changed) {
+					void this.saveSettings();
+				}
+			}
+			onChange(file, oldPath);
+		}));
+	}
+
+	/**
+	 * Points favorites, usage and aliases at a local emote's new path. When
+	 * a folder moved, every emote under it moves with it. Returns whether
+	 * anything changed.
+	 */
+	private moveLocalEmoteRefs(oldPath: string, newPath: string): boolean {
+		let changed = false;
+		const move = (ref: EmoteRef) => {
+			if (ref.provider !== 'local') {
+				return;
+			}
+			if (ref.id === oldPath) {
+				ref.id = newPath;
+				changed = true;
+			} else if (ref.id.startsWith(`${oldPath}/`)) {
+				ref.id = newPath + ref.id.substring(oldPath.length);
+				changed = true;
+			}
+		};
+		this.settings.favoriteEmotes.forEach(move);
+		this.settings.emoteUsage.forEach(move);
+		this.settings.emoteAliases.forEach(move);
+		return changed;
+	}
+
+	/**
+	 * Local emotes are merged first, so your own images win any name clash,
+	 * then channel sources in their configured order. Global sets always come
+	 * last so a streamer's own emote overrides a global one with the same name.
+	 */
+	private rebuildEmoteIndex(): void {
+		const sets: LoadedEmoteSet[] = this.localEmotes ? [this.localEmotes] : [];
+		for (const source of this.getEnabledSources()) {
+			const set = this.loadedSets.get(source.id);
+			if (set) {
+				sets.push({ ...set, label: source.label });
+			}
+		}
+		for (const provider of this.getActiveGlobalProviders()) {
+			const globalSet = this.loadedSets.get(getGlobalSourceId(provider));
+			if (globalSet) {
+				sets.push(globalSet);
+			}
+		}
+		this.emoteSuggest.updateEmoteSets(sets);
+		// Shortcodes in open editors resolve against the new emotes.
+		this.refreshEditorExtensions();
+		this.preCacheComplete = false;
+		this.notifyStateChange();
+	}
+
 	private async loadStreamersFromJson(): Promise<StreamerDefinition[]> {
 		try {
 			const streamersPath = normalizePath(`${this.manifest.dir}/streamers.json`);
@@ -289,35 +959,262 @@ export default class SevenTVPlugin extends Plugin {
 		return this.abortController;
 	}
 
-	private async insertWithOnDemandCache(editor: Editor, name: string, id: string): Promise<void> {
-		const cacheRelativePath = normalizePath(`${this.CACHE_DIR}/${id}.webp`);
-		const cacheFile = this.app.vault.getFileByPath(cacheRelativePath);
-		const cacheResourceUrl = cacheFile
-			? this.app.vault.getResourcePath(cacheFile)
-			: this.app.vault.adapter.getResourcePath(cacheRelativePath);
-		const cdnUrl = `https://cdn.7tv.app/emote/${id}/1x.webp`;
-		const isCached = cacheFile !== null;
-
-		const pictureHtml = createOnDemandEmoteHtml({
-			name,
-			cachePath: cacheResourceUrl,
-			cdnUrl,
-			preferCache: isCached
+	/**
+	 * Rewrites every inserted emote in the vault to the markup the current
+	 * settings produce, which replaces device-specific app:// cache URLs
+	 * written by older versions. Shows a preview before writing.
+	 */
+	private async repairEmoteMarkup(): Promise<void> {
+		const rewriter = new EmoteMarkupRewriter(this.app, (emote) => {
+			const record = this.resolveParsedEmote(emote);
+			return record ? this.createEmoteMarkup(record, emote.size) : null;
 		});
-		editor.replaceSelection(pictureHtml);
 
-		if (isCached) {
+		new Notice('Scanning notes for emotes...');
+		const plans = await rewriter.plan(this.app.vault.getMarkdownFiles());
+		if (!plans.some((plan) => plan.changed > 0)) {
+			new Notice('All emote markup is already up to date');
 			return;
 		}
 
-		this.scheduleManagedTimeout(() => {
-			void this.downloadToCacheOnDemand(id, cdnUrl, cacheRelativePath).catch((error: unknown) => {
-				if (error instanceof DOMException && error.name === 'AbortError') {
-					this.logMessage(`On-demand cache retry skipped for ${id}`, 'debug');
-					return;
+		new EmoteRewritePreviewModal(this.app, 'Repair emote markup', plans, async () => {
+			const summary = describeRewriteReport(await rewriter.apply(plans), 'Repaired');
+			this.logMessage(summary, 'basic');
+			new Notice(summary, 10000);
+		}).open();
+	}
+
+	/**
+	 * Converts emotes of the `from` formats in `files` to the `to` format,
+	 * after a dry-run preview. Converting to embeds downloads missing cache
+	 * files first; emotes whose download fails are left unchanged.
+	 */
+	async migrateEmoteFormat(files: TFile[], from: EmoteMarkupFormat[], to: EmoteMarkupFormat): Promise<void> {
+		const pendingDownloads = new Map<string, { record: EmoteRecord; file: EmoteFile }>();
+		let applying = false;
+		const rewriter = new EmoteMarkupRewriter(this.app, (emote, source) => {
+			const record = this.resolveParsedEmote(emote);
+			if (!record) {
+				// An unknown `:word:` is ordinary text, not an emote that failed.
+				return emote.format === 'shortcode' && !emote.ref ? source : null;
+			}
+			if (to === 'embed') {
+				const [file] = this.getEmoteFiles(record, emote.size);
+				if (!this.pathExists(file.cachePath)) {
+					if (applying) {
+						return null;
+					}
+					pendingDownloads.set(file.cachePath, { record, file });
 				}
-				this.logger.warn(`On-demand cache download failed for ${id}: ${error}`);
-			});
+			}
+			return this.formatEmote(record, to, emote.size);
+		}, from.filter((format) => format !== to));
+
+		new Notice(`Scanning ${files.length} notes for emotes...`);
+		const plans = await rewriter.plan(files);
+		if (!plans.some((plan) => plan.changed > 0)) {
+			new Notice('No emotes to convert');
+			return;
+		}
+
+		const heading = `Dry run: convert to ${EMOTE_MARKUP_FORMATS[to]}`;
+		new EmoteRewritePreviewModal(this.app, heading, plans, async () => {
+			if (pendingDownloads.size > 0) {
+				new Notice(`Downloading ${pendingDownloads.size} emotes for embedding...`);
+				await this.ensureCacheInitialized();
+				for (const { record, file } of pendingDownloads.values()) {
+					await this.downloadToCacheOnDemand(record.id, file.cdnUrl, file.cachePath).catch((error: unknown) => {
+						this.logger.warn(`Could not cache ${record.id} for embedding: ${error}`);
+					});
+				}
+			}
+			applying = true;
+			const summary = describeRewriteReport(await rewriter.apply(plans), 'Converted');
+			this.logMessage(summary, 'basic');
+			new Notice(summary, 10000);
+		}).open();
+	}
+
+	/**
+	 * Prefers the loaded emote so names and sizes are current; falls back to
+	 * what the markup itself records.
+	 */
+	resolveParsedEmote(emote: ParsedEmoteMarkup): EmoteRecord | null {
+		if (!emote.ref) {
+			return emote.name ? this.getEmoteMap().get(emote.name) ?? null : null;
+		}
+		const loaded = this.emoteSuggest?.findEmoteById(emote.ref);
+		if (loaded) {
+			return loaded;
+		}
+		return createEmoteRecord(emote.ref.provider, emote.ref.id, emote.name ?? emote.ref.id, {
+			width: emote.width,
+			height: emote.height
+		});
+	}
+
+	/**
+	 * Local emotes are always linked as embeds of their vault file, except
+	 * as shortcodes, since there is no CDN copy for HTML to fall back to.
+	 */
+	private formatEmote(emote: EmoteRecord, format: EmoteMarkupFormat, size: EmoteSize): string {
+		if (emote.provider === 'local' && format !== 'shortcode') {
+			return formatEmoteEmbed(emote, emote.id, size);
+		}
+		const files = this.getEmoteFiles(emote, size);
+		switch (format) {
+			case 'span':
+				return createNoCacheEmoteHtml(emote, size, files.map((file) => ({ url: file.cdnUrl, density: file.density })));
+			case 'embed':
+				return formatEmoteEmbed(emote, files[0].cachePath, size);
+			case 'shortcode':
+				return this.formatShortcode(emote, size);
+			default:
+				// Only the best format is cached; the CDN sources add fallbacks
+				// for viewers that cannot display it.
+				return createOnDemandEmoteHtml({
+					emote,
+					size,
+					cacheSource: {
+						mimeType: IMAGE_FORMAT_MIME_TYPES[files[0].format],
+						candidates: files.map((file) => ({ url: file.cachePath, density: file.density }))
+					},
+					cdnSources: this.getImageFormats(emote).map((imageFormat) => ({
+						mimeType: IMAGE_FORMAT_MIME_TYPES[imageFormat],
+						candidates: this.getEmoteFiles(emote, size, imageFormat)
+							.map((file) => ({ url: file.cdnUrl, density: file.density }))
+					}))
+				});
+		}
+	}
+
+	/**
+	 * Only pins the ID when the name alone would resolve to another emote.
+	 * Local emotes cannot be pinned, so they are embedded instead.
+	 */
+	private formatShortcode(emote: EmoteRecord, size: EmoteSize): string {
+		const byName = this.getEmoteMap().get(emote.name);
+		const pinned = !byName || byName.id !== emote.id || byName.provider !== emote.provider;
+		if (pinned && emote.provider === 'local') {
+			return formatEmoteEmbed(emote, emote.id, size);
+		}
+		return formatEmoteShortcode(emote, pinned, size);
+	}
+
+	/**
+	 * Counts an insertion for suggestion ranking and the recent list. Only
+	 * the most recently used emotes are kept so the settings file stays small.
+	 */
+	private async recordEmoteUse(emote: EmoteRef): Promise<void> {
+		const previous = this.settings.emoteUsage.find((entry) => isSameEmote(entry, emote));
+		const others = this.settings.emoteUsage.filter((entry) => entry !== previous);
+		const entry: EmoteUsage = {
+			id: emote.id,
+			provider: emote.provider,
+			count: (previous?.count ?? 0) + 1,
+			lastUsedAt: Date.now()
+		};
+		this.settings.emoteUsage = [entry, ...others].slice(0, MAX_TRACKED_EMOTES);
+		await this.saveSettings();
+	}
+
+	/**
+	 * Right-clicking a rendered emote offers to add it to or remove it from
+	 * the favorites.
+	 */
+	private showEmoteContextMenu(event: MouseEvent): void {
+		const target = event.target instanceof HTMLElement ? event.target.closest<HTMLElement>('.seven-tv-emote') : null;
+		const parsed = target ? parseEmoteMarkup(target.outerHTML) : null;
+		const emote = parsed ? this.resolveParsedEmote(parsed) : null;
+		if (!emote) {
+			return;
+		}
+		event.preventDefault();
+		event.stopPropagation();
+		const isFavorite = this.isFavoriteEmote(emote);
+		new Menu()
+			.addItem((item) => {
+				item
+					.setTitle(isFavorite ? `Remove :${emote.name}: from favorites` : `Add :${emote.name}: to favorites`)
+					.setIcon('star')
+					.onClick(() => {
+						void this.toggleFavoriteEmote(emote);
+					});
+			})
+			.showAtMouseEvent(event);
+	}
+
+	private resolveEmoteRefs(refs: EmoteRef[]): ResolvedEmote[] {
+		return refs
+			.map((ref) => this.emoteSuggest?.findEmoteById(ref) ?? null)
+			.filter((emote): emote is ResolvedEmote => emote !== null);
+	}
+
+	/**
+	 * Embeds only resolve once the cached file exists, so the download has
+	 * to finish before anything is written. If it fails the emote is
+	 * inserted as HTML instead of as a broken embed. The user can keep
+	 * typing meanwhile; the emote lands where the cursor was when it was
+	 * picked.
+	 */
+	private async insertEmoteEmbed(editor: Editor, emote: EmoteRecord, size: EmoteSize): Promise<void> {
+		// Embeds take a single file, so only the primary resolution is used.
+		const [file] = this.getEmoteFiles(emote, size);
+		if (this.pathExists(file.cachePath)) {
+			this.replaceSelection(editor, formatEmoteEmbed(emote, file.cachePath, size));
+			return;
+		}
+
+		const view = (editor as Editor & { cm?: EditorView }).cm;
+		if (!view) {
+			this.replaceSelection(editor, await this.createEmoteEmbedText(emote, file, size));
+			return;
+		}
+		editor.replaceSelection('');
+		const pointId = trackInsertionPoint(view, editor.posToOffset(editor.getCursor()));
+		const text = await this.createEmoteEmbedText(emote, file, size);
+		if (!insertAtTrackedPoint(view, pointId, text)) {
+			new Notice(`:${emote.name}: was not inserted because its note was closed`);
+		}
+	}
+
+	private async createEmoteEmbedText(emote: EmoteRecord, file: EmoteFile, size: EmoteSize): Promise<string> {
+		try {
+			await this.downloadToCacheOnDemand(emote.id, file.cdnUrl, file.cachePath);
+			return formatEmoteEmbed(emote, file.cachePath, size);
+		} catch (error) {
+			this.logger.warn(`Could not cache ${emote.id} for embedding: ${error}`);
+			new Notice(`Could not download :${emote.name}:, so it was inserted as HTML instead`);
+			return this.createEmoteMarkup(emote, size);
+		}
+	}
+
+	private replaceSelection(editor: Editor, text: string): void {
+		const from = editor.getCursor('from');
+		editor.replaceRange(text, from, editor.getCursor('to'));
+		editor.setCursor(editor.offsetToPos(editor.posToOffset(from) + text.length));
+	}
+
+	private scheduleOnDemandCache(emote: EmoteRecord, size: EmoteSize): void {
+		if (emote.provider === 'local') {
+			return;
+		}
+		const id = emote.id;
+		const missing = this.getEmoteFiles(emote, size).filter((file) => !this.pathExists(file.cachePath));
+		if (missing.length === 0) {
+			return;
+		}
+
+		this.scheduleManagedTimeout(() => {
+			for (const file of missing) {
+				void this.downloadToCacheOnDemand(id, file.cdnUrl, file.cachePath).catch((error: unknown) => {
+					if (error instanceof DOMException && error.name === 'AbortError') {
+						this.logMessage(`On-demand cache retry skipped for ${id}`, 'debug');
+						return;
+					}
+					this.logger.warn(`On-demand cache download failed for ${id}: ${error}`);
+				});
+			}
 		}, 500);
 	}
 
@@ -333,11 +1230,17 @@ export default class SevenTVPlugin extends Plugin {
 		}
 	}
 
-	private async preCacheEmoteSet(emoteMap: Map<string, string>): Promise<void> {
+	private async preCacheEmoteSet(emoteMap: Map<string, ResolvedEmote>): Promise<void> {
 		const preCacheSignal = this.abortController?.signal;
-		const emoteIds = Array.from(emoteMap.values());
-		const totalEmotes = emoteIds.length;
-		const estimatedTotalBytes = totalEmotes * 50 * 1024;
+		const uniqueEmotes = new Map<string, EmoteRecord>();
+		for (const emote of emoteMap.values()) {
+			if (emote.provider !== 'local') {
+				uniqueEmotes.set(this.getCachePath(emote), emote);
+			}
+		}
+		const emotes = Array.from(uniqueEmotes.values());
+		const totalEmotes = emotes.length;
+		const estimatedTotalBytes = this.estimatePreCacheBytes(emotes);
 		const batchSize = 3;
 		const totalBatches = Math.ceil(totalEmotes / batchSize);
 
@@ -352,11 +1255,11 @@ export default class SevenTVPlugin extends Plugin {
 
 			const start = batchIndex * batchSize;
 			const end = Math.min(start + batchSize, totalEmotes);
-			const batch = emoteIds.slice(start, end);
+			const batch = emotes.slice(start, end);
 
 			this.downloadTracker.updateBatch(batchIndex + 1);
-			const tasks = batch.map((id) =>
-				this.ensureEmoteCached(id, preCacheSignal)
+			const tasks = batch.map((emote) =>
+				this.ensureEmoteCached(emote, preCacheSignal)
 					.then((bytes) => this.downloadTracker.recordSuccess(bytes))
 					.catch(() => this.downloadTracker.recordFailure())
 			);
@@ -373,14 +1276,17 @@ export default class SevenTVPlugin extends Plugin {
 		}
 	}
 
-	private async ensureEmoteCached(emoteId: string, signal?: AbortSignal): Promise<number> {
-		const cachePath = normalizePath(`${this.CACHE_DIR}/${emoteId}.webp`);
-		if (this.pathExists(cachePath)) {
-			return 0;
+	/**
+	 * Caches every resolution the default emote size uses.
+	 */
+	private async ensureEmoteCached(emote: EmoteRecord, signal?: AbortSignal): Promise<number> {
+		let bytes = 0;
+		for (const file of this.getEmoteFiles(emote, this.settings.emoteSize)) {
+			if (!this.pathExists(file.cachePath)) {
+				bytes += await this.downloadToCache(emote.id, file.cdnUrl, file.cachePath, signal);
+			}
 		}
-
-		const cdnUrl = `https://cdn.7tv.app/emote/${emoteId}/1x.webp`;
-		return this.downloadToCache(emoteId, cdnUrl, cachePath, signal);
+		return bytes;
 	}
 
 	private async downloadToCacheOnDemand(emoteId: string, sourceUrl: string, destPath: string): Promise<number> {
@@ -403,7 +1309,11 @@ export default class SevenTVPlugin extends Plugin {
 		if (signal?.aborted) {
 			throw new DOMException('Download cancelled', 'AbortError');
 		}
-		const response = await requestUrl({ url: sourceUrl, throw: false });
+		const response = await withTimeout(
+			requestUrl({ url: sourceUrl, throw: false }),
+			DOWNLOAD_TIMEOUT_MS,
+			`Download timed out after ${DOWNLOAD_TIMEOUT_MS / 1000}s`
+		);
 		if (response.status < 200 || response.status >= 300) {
 			throw new Error(`HTTP ${response.status}`);
 		}
@@ -442,14 +1352,16 @@ export default class SevenTVPlugin extends Plugin {
 		return timeoutId;
 	}
 
-	private async refreshEmotesOnStartup(twitchId: string, notifyIfOffline: boolean): Promise<void> {
+	private async refreshEmotesOnStartup(notifyIfOffline: boolean): Promise<void> {
 		if (this.startupRefreshInFlight) {
 			return;
 		}
 
 		if (typeof navigator !== 'undefined' && navigator.onLine === false) {
 			if (notifyIfOffline) {
-				new Notice('7TV Emotes is offline. Emotes were not refreshed. Cached emotes still work.');
+				new Notice(this.getEmoteCount() > 0
+					? '7TV Emotes is offline. Using the emotes saved from the last refresh.'
+					: '7TV Emotes is offline. Emotes were not refreshed. Cached emotes still work.');
 			}
 			this.logger.warn('Skipped startup emote refresh because app is offline');
 			return;
@@ -457,8 +1369,11 @@ export default class SevenTVPlugin extends Plugin {
 
 		this.startupRefreshInFlight = true;
 		try {
-			await this.refreshEmotesForUser(twitchId);
-			if (this.getEmoteCount() === 0) {
+			const failures = await this.reloadEmoteSources();
+			this.emotesRefreshedThisSession = true;
+			if (failures.length > 0) {
+				new Notice(describeLoadFailures(failures), 10000);
+			} else if (this.getEmoteCount() === 0) {
 				new Notice('7TV Emotes could not load emotes on startup. Check your connection and reload emotes in settings.');
 			}
 		} catch (error) {
@@ -469,3 +1384,25 @@ export default class SevenTVPlugin extends Plugin {
 		}
 	}
 }
+
+function isSameEmote(a: EmoteRef, b: EmoteRef): boolean {
+	return a.id === b.id && a.provider === b.provider;
+}
+
+/**
+ * Rejects with a timeout error when `request` takes longer than `timeoutMs`,
+ * so one stalled download cannot hold up whatever waits on it.
+ */
+async function withTimeout<T>(request: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+	let timeoutId: number | null = null;
+	const timeoutPromise = new Promise<never>((_, reject) => {
+		timeoutId = window.setTimeout(() => reject(new ApiError('timeout', message)), timeoutMs);
+	});
+	try {
+		return await Promise.race([request, timeoutPromise]);
+	} finally {
+		if (timeoutId !== null) {
+			window.clearTimeout(timeoutId);
+		}
+	}
+}
@@ -0,0 +1,53 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { parseAliases } from './emoteAliases';
+import { EmoteAlias } from './types';
+
+/**
+ * Takes aliases pasted as the JSON that "Export aliases" copies.
+ */
+export class AliasImportModal extends Modal {
+	constructor(
+		app: App,
+		private readonly onImport: (aliases: EmoteAlias[]) => Promise<void> | void
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('seven-tv-alias-import-modal');
+		this.titleEl.setText('Import aliases');
+
+		contentEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Paste aliases exported from this plugin. Aliases that already exist are replaced.'
+		});
+		const textArea = contentEl.createEl('textarea', {
+			cls: 'seven-tv-alias-import-input',
+			attr: { rows: '10', placeholder: '[{"alias": "yay", "provider": "7tv", "id": "...", "emoteName": "..."}]' }
+		});
+
+		new Setting(contentEl).setClass('seven-tv-modal-actions').addButton((button) => {
+			button
+				.setButtonText('Import')
+				.setCta()
+				.onClick(() => {
+					let aliases: EmoteAlias[];
+					try {
+						aliases = parseAliases(textArea.value);
+					} catch (error) {
+						new Notice(`Could not import aliases: ${error instanceof Error ? error.message : error}`);
+						return;
+					}
+					this.close();
+					void this.onImport(aliases);
+				});
+		});
+		window.requestAnimationFrame(() => textArea.focus());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,62 @@
+import { PluginLogger } from './logger';
+
+/**
+ * Downloads missing cache files one at a time in the background. Each file
+ * is queued once, however often it is requested, and the queue pauses while
+ * the app is offline until `resume` is called. A file that fails to download
+ * is not tried again until the plugin reloads, so a missing image does not
+ * cost a request every time a note renders.
+ */
+export class CacheFillQueue {
+	private readonly pending = new Map<string, () => Promise<unknown>>();
+	private readonly failed = new Set<string>();
+	private running = false;
+	private stopped = false;
+
+	constructor(private readonly logger: PluginLogger) {}
+
+	enqueue(key: string, task: () => Promise<unknown>): void {
+		if (this.stopped || this.pending.has(key) || this.failed.has(key)) {
+			return;
+		}
+		this.pending.set(key, task);
+		void this.drain();
+	}
+
+	resume(): void {
+		void this.drain();
+	}
+
+	stop(): void {
+		this.stopped = true;
+		this.pending.clear();
+	}
+
+	private async drain(): Promise<void> {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		try {
+			while (this.pending.size > 0 && !this.stopped && !isOffline()) {
+				const [key, task] = this.pending.entries().next().value as [string, () => Promise<unknown>];
+				try {
+					await task();
+				} catch (error) {
+					this.logger.warn(`Background cache fill failed for ${key}: ${error}`);
+					// Going offline mid-download is not the file's fault.
+					if (!isOffline()) {
+						this.failed.add(key);
+					}
+				}
+				this.pending.delete(key);
+			}
+		} finally {
+			this.running = false;
+		}
+	}
+}
+
+function isOffline(): boolean {
+	return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
@@ -0,0 +1,45 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { describeEmoteSource } from './providers';
+import { ResolvedEmote } from './types';
+
+/**
+ * Picks one of the loaded emotes by name, for settings that point at an
+ * emote rather than insert it.
+ */
+export class EmoteChoiceModal extends FuzzySuggestModal<ResolvedEmote> {
+	constructor(
+		app: App,
+		private readonly plugin: SevenTVPlugin,
+		private readonly onChoose: (emote: ResolvedEmote) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose an emote...');
+	}
+
+	getItems(): ResolvedEmote[] {
+		return Array.from(this.plugin.getEmoteMap().values())
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	getItemText(item: ResolvedEmote): string {
+		return item.name;
+	}
+
+	onChooseItem(item: ResolvedEmote): void {
+		this.onChoose(item);
+	}
+
+	renderSuggestion(fuzzyMatch: FuzzyMatch<ResolvedEmote>, el: HTMLElement): void {
+		const emote = fuzzyMatch.item;
+		const container = el.createDiv({ cls: 'seven-tv-suggestion-item' });
+		const image = container.createEl('img', { cls: 'seven-tv-suggestion-img' });
+		image.setAttribute('src', this.plugin.getEmotePreviewUrl(emote));
+		image.setAttribute('alt', emote.name);
+		container.createSpan({ cls: 'seven-tv-suggestion-text', text: `:${emote.name}:` });
+		container.createSpan({
+			cls: 'seven-tv-suggestion-source',
+			text: describeEmoteSource(emote)
+		});
+	}
+}
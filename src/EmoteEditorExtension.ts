@@ -7,7 +7,9 @@ import {
 	ViewUpdate,
 	WidgetType
 } from '@codemirror/view';
+import { syntaxTree } from '@codemirror/language';
 import {
+	EditorState,
 	Extension,
 	RangeSet,
 	RangeSetBuilder,
@@ -15,23 +17,22 @@ import {
 } from '@codemirror/state';
 import { editorLivePreviewField } from 'obsidian';
 import type SevenTVPlugin from '../index';
+import { EmoteMarkupMatch, findEmoteMarkup, findEmoteShortcodes } from './emoteMarkup';
+import { EmoteRenderer } from './EmoteRenderer';
+import { EmoteRecord, EmoteSize } from './types';
+import { resolveCachedEmoteSources } from './utils';
 
-const EMOTE_PATTERN = /<(picture|span)\b[^>]*\bclass="seven-tv-emote"[^>]*>[\s\S]*?<\/\1>/g;
-const TITLE_ATTR_PATTERN = /\btitle="([^"]*)"/;
-const ALT_ATTR_PATTERN = /\balt="([^"]*)"/;
-
-interface EmoteRange {
-	from: number;
-	to: number;
-	html: string;
-	name: string;
-}
+// Syntax node names Obsidian gives inline code, code blocks and frontmatter.
+const VERBATIM_NODE_PATTERN = /inline-code|codeblock|frontmatter/;
 
 class AtomicRangeValue extends RangeValue {}
 const ATOMIC_VALUE = new AtomicRangeValue();
 
 class EmoteImageWidget extends WidgetType {
-	constructor(private readonly html: string) {
+	constructor(
+		private readonly html: string,
+		private readonly resolveCachePath: (path: string) => string | null
+	) {
 		super();
 	}
 
@@ -43,6 +44,7 @@ class EmoteImageWidget extends WidgetType {
 		const parsed = new DOMParser().parseFromString(this.html, 'text/html');
 		const root = parsed.body.firstElementChild;
 		if (root instanceof HTMLElement) {
+			resolveCachedEmoteSources(root, this.resolveCachePath);
 			return document.adoptNode(root);
 		}
 		return document.createElement('span');
@@ -73,62 +75,116 @@ class EmoteTextWidget extends WidgetType {
 	}
 }
 
-function decodeAttr(value: string): string {
-	return value
-		.replace(/&quot;/g, '"')
-		.replace(/&#39;/g, "'")
-		.replace(/&lt;/g, '<')
-		.replace(/&gt;/g, '>')
-		.replace(/&amp;/g, '&');
-}
+class EmoteShortcodeWidget extends WidgetType {
+	constructor(
+		private readonly emote: EmoteRecord,
+		private readonly size: EmoteSize,
+		private readonly renderer: EmoteRenderer
+	) {
+		super();
+	}
 
-function extractEmoteName(html: string): string {
-	const titleMatch = html.match(TITLE_ATTR_PATTERN);
-	if (titleMatch) {
-		const stripped = decodeAttr(titleMatch[1]).replace(/^:|:$/g, '');
-		if (stripped.length > 0) {
-			return stripped;
-		}
+	eq(other: WidgetType): boolean {
+		return other instanceof EmoteShortcodeWidget &&
+			other.emote.id === this.emote.id &&
+			other.emote.provider === this.emote.provider &&
+			other.emote.name === this.emote.name &&
+			other.size === this.size;
 	}
-	const altMatch = html.match(ALT_ATTR_PATTERN);
-	if (altMatch) {
-		const stripped = decodeAttr(altMatch[1]).replace(/^:|:$/g, '');
-		if (stripped.length > 0) {
-			return stripped;
-		}
+
+	toDOM(): HTMLElement {
+		return this.renderer.createElement(this.emote, this.size);
+	}
+
+	ignoreEvent(): boolean {
+		return false;
+	}
+}
+
+interface ShortcodeRange {
+	from: number;
+	to: number;
+	emote: EmoteRecord;
+	size: EmoteSize;
+}
+
+function findEmoteRanges(view: EditorView): EmoteMarkupMatch[] {
+	const ranges: EmoteMarkupMatch[] = [];
+	const doc = view.state.doc;
+	for (const { from, to } of view.visibleRanges) {
+		ranges.push(...findEmoteMarkup(doc.sliceString(from, to), from));
 	}
-	return 'emote';
+	return ranges;
 }
 
-function findEmoteRanges(view: EditorView): EmoteRange[] {
-	const ranges: EmoteRange[] = [];
+/**
+ * Whether the character at `pos` is in inline code, a code block or
+ * frontmatter, going by the editor's own Markdown parse. Emotes are neither
+ * suggested nor rendered there.
+ */
+export function isInVerbatimSyntax(state: EditorState, pos: number): boolean {
+	return VERBATIM_NODE_PATTERN.test(syntaxTree(state).resolveInner(pos, 1).type.name);
+}
+
+function findShortcodeRanges(
+	view: EditorView,
+	htmlRanges: EmoteMarkupMatch[],
+	plugin: SevenTVPlugin
+): ShortcodeRange[] {
+	const ranges: ShortcodeRange[] = [];
 	const doc = view.state.doc;
 	for (const { from, to } of view.visibleRanges) {
-		const text = doc.sliceString(from, to);
-		EMOTE_PATTERN.lastIndex = 0;
-		let match: RegExpExecArray | null;
-		while ((match = EMOTE_PATTERN.exec(text)) !== null) {
-			const html = match[0];
-			const start = from + match.index;
-			const end = start + html.length;
-			ranges.push({ from: start, to: end, html, name: extractEmoteName(html) });
+		for (let pos = from; pos <= to;) {
+			const line = doc.lineAt(pos);
+			pos = line.to + 1;
+			if (!line.text.includes(':')) {
+				continue;
+			}
+			for (const match of findEmoteShortcodes(line.text, line.from)) {
+				const insideHtml = htmlRanges.some((range) => match.from < range.to && match.to > range.from);
+				if (insideHtml || isInVerbatimSyntax(view.state, match.from)) {
+					continue;
+				}
+				const emote = plugin.resolveShortcode(match);
+				if (emote) {
+					ranges.push({ from: match.from, to: match.to, emote, size: match.size });
+				}
+			}
 		}
 	}
 	return ranges;
 }
 
-function buildDecorationSet(view: EditorView, ranges: EmoteRange[]): DecorationSet {
-	if (ranges.length === 0) {
+function buildDecorationSet(
+	view: EditorView,
+	htmlRanges: EmoteMarkupMatch[],
+	shortcodeRanges: ShortcodeRange[],
+	plugin: SevenTVPlugin
+): DecorationSet {
+	if (htmlRanges.length === 0 && shortcodeRanges.length === 0) {
 		return Decoration.none;
 	}
 	const sel = view.state.selection.main;
-	const builder = new RangeSetBuilder<Decoration>();
-	for (const range of ranges) {
-		const focused = sel.from <= range.to && sel.to >= range.from;
-		const widget = focused
+	const isFocused = (range: { from: number; to: number }) => sel.from <= range.to && sel.to >= range.from;
+
+	const decorated: { from: number; to: number; widget: WidgetType }[] = [];
+	for (const range of htmlRanges) {
+		const widget = isFocused(range)
 			? new EmoteTextWidget(range.name)
-			: new EmoteImageWidget(range.html);
-		builder.add(range.from, range.to, Decoration.replace({ widget, inclusive: false }));
+			: new EmoteImageWidget(range.html, (path) => plugin.resolveCacheResourceUrl(path));
+		decorated.push({ from: range.from, to: range.to, widget });
+	}
+	// Shortcodes under the cursor show their source text so they can be edited.
+	for (const range of shortcodeRanges) {
+		if (!isFocused(range)) {
+			decorated.push({ from: range.from, to: range.to, widget: new EmoteShortcodeWidget(range.emote, range.size, plugin.getEmoteRenderer()) });
+		}
+	}
+	decorated.sort((a, b) => a.from - b.from);
+
+	const builder = new RangeSetBuilder<Decoration>();
+	for (const { from, to, widget } of decorated) {
+		builder.add(from, to, Decoration.replace({ widget, inclusive: false }));
 	}
 	return builder.finish();
 }
@@ -136,29 +192,33 @@ function buildDecorationSet(view: EditorView, ranges: EmoteRange[]): DecorationS
 export function buildEmoteEditorExtension(plugin: SevenTVPlugin): Extension {
 	class EmoteViewPlugin implements PluginValue {
 		decorations: DecorationSet = Decoration.none;
-		ranges: EmoteRange[] = [];
+		ranges: EmoteMarkupMatch[] = [];
 
 		constructor(view: EditorView) {
 			this.rebuild(view);
 		}
 
 		update(update: ViewUpdate): void {
-			if (update.docChanged || update.viewportChanged || update.selectionSet) {
+			// `refreshEditorExtensions` reconfigures the editor when the emotes change.
+			const isReconfigured = update.transactions.some((transaction) => transaction.reconfigured);
+			if (update.docChanged || update.viewportChanged || update.selectionSet || isReconfigured) {
 				this.rebuild(update.view);
 			}
 		}
 
 		private rebuild(view: EditorView): void {
-			if (!plugin.settings.compactEditorDisplay || !view.state.field(editorLivePreviewField)) {
+			if (!view.state.field(editorLivePreviewField)) {
 				this.ranges = [];
 				this.decorations = Decoration.none;
 				return;
 			}
-			this.ranges = findEmoteRanges(view);
-			this.decorations = buildDecorationSet(view, this.ranges);
+			// HTML ranges are always found so shortcodes inside their attributes are ignored.
+			const htmlRanges = findEmoteRanges(view);
+			const shortcodeRanges = findShortcodeRanges(view, htmlRanges, plugin);
+			this.ranges = plugin.settings.compactEditorDisplay ? htmlRanges : [];
+			this.decorations = buildDecorationSet(view, this.ranges, shortcodeRanges, plugin);
 		}
 	}
-
 	const viewPlugin = ViewPlugin.fromClass(EmoteViewPlugin, {
 		decorations: (instance) => instance.decorations
 	});
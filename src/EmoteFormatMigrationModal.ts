@@ -0,0 +1,150 @@
+import { App, Modal, Notice, Setting, TFile, TFolder } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { EMOTE_MARKUP_FORMATS, EmoteMarkupFormat } from './emoteMarkup';
+
+type MigrationScope = 'note' | 'folder' | 'vault';
+
+const ALL_FORMATS = Object.keys(EMOTE_MARKUP_FORMATS) as EmoteMarkupFormat[];
+
+/**
+ * Picks which notes to convert and between which emote formats, then hands
+ * off to the plugin for a dry-run preview.
+ */
+export class EmoteFormatMigrationModal extends Modal {
+	private noteScope: MigrationScope;
+	private folderPath: string;
+	private from: EmoteMarkupFormat | 'any' = 'any';
+	private to: EmoteMarkupFormat;
+	private folderSetting: Setting | null = null;
+
+	constructor(
+		app: App,
+		private readonly plugin: SevenTVPlugin,
+		private readonly activeFile: TFile | null
+	) {
+		super(app);
+		this.noteScope = activeFile ? 'note' : 'vault';
+		this.folderPath = activeFile?.parent?.path ?? '/';
+		this.to = this.getCurrentFormat();
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('seven-tv-migration-modal');
+		this.titleEl.setText('Convert emote format');
+
+		new Setting(contentEl)
+			.setName('Notes')
+			.addDropdown((dropdown) => {
+				if (this.activeFile) {
+					dropdown.addOption('note', `Current note (${this.activeFile.basename})`);
+				}
+				dropdown
+					.addOption('folder', 'A folder')
+					.addOption('vault', 'Whole vault')
+					.setValue(this.noteScope)
+					.onChange((value: MigrationScope) => {
+						this.noteScope = value;
+						this.updateFolderVisibility();
+					});
+			});
+
+		this.folderSetting = new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Includes every note in subfolders.')
+			.addDropdown((dropdown) => {
+				for (const folder of this.getFolders()) {
+					dropdown.addOption(folder.path, folder.isRoot() ? '/' : folder.path);
+				}
+				dropdown.setValue(this.folderPath).onChange((value) => {
+					this.folderPath = value;
+				});
+			});
+		this.updateFolderVisibility();
+
+		new Setting(contentEl)
+			.setName('Convert from')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('any', 'Any format');
+				for (const format of ALL_FORMATS) {
+					dropdown.addOption(format, EMOTE_MARKUP_FORMATS[format]);
+				}
+				dropdown.setValue(this.from).onChange((value: EmoteMarkupFormat | 'any') => {
+					this.from = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Convert to')
+			.addDropdown((dropdown) => {
+				for (const format of ALL_FORMATS) {
+					dropdown.addOption(format, EMOTE_MARKUP_FORMATS[format]);
+				}
+				dropdown.setValue(this.to).onChange((value: EmoteMarkupFormat) => {
+					this.to = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setClass('seven-tv-modal-actions')
+			.addButton((button) => {
+				button
+					.setButtonText('Preview changes')
+					.setCta()
+					.onClick(() => this.runPreview());
+			})
+			.addButton((button) => {
+				button.setButtonText('Cancel').onClick(() => this.close());
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private runPreview(): void {
+		if (this.from === this.to) {
+			new Notice('Choose two different formats');
+			return;
+		}
+		const files = this.getFiles();
+		if (files.length === 0) {
+			new Notice('No notes to convert');
+			return;
+		}
+		const from = this.from === 'any' ? ALL_FORMATS : [this.from];
+		this.close();
+		void this.plugin.migrateEmoteFormat(files, from, this.to);
+	}
+
+	private getFiles(): TFile[] {
+		if (this.noteScope === 'note') {
+			return this.activeFile ? [this.activeFile] : [];
+		}
+		const files = this.app.vault.getMarkdownFiles();
+		if (this.noteScope === 'vault' || this.folderPath === '/') {
+			return files;
+		}
+		const prefix = `${this.folderPath}/`;
+		return files.filter((file) => file.path.startsWith(prefix));
+	}
+
+	private getFolders(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles()
+			.filter((file): file is TFolder => file instanceof TFolder)
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	private updateFolderVisibility(): void {
+		this.folderSetting?.settingEl.toggleClass('seven-tv-hidden', this.noteScope !== 'folder');
+	}
+
+	private getCurrentFormat(): EmoteMarkupFormat {
+		const { insertionFormat, cacheStrategy } = this.plugin.settings;
+		if (insertionFormat === 'shortcode' || insertionFormat === 'embed') {
+			return insertionFormat;
+		}
+		return cacheStrategy === 'no-cache' ? 'span' : 'picture';
+	}
+}
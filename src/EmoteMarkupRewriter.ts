@@ -0,0 +1,82 @@
+import { App, TFile } from 'obsidian';
+import { EmoteMarkupFormat, ParsedEmoteMarkup, rewriteEmoteMarkup } from './emoteMarkup';
+
+export interface NoteRewritePlan {
+	file: TFile;
+	changed: number;
+	skipped: number;
+}
+
+export interface RewriteReport {
+	notesChanged: number;
+	emotesChanged: number;
+	skipped: number;
+	failedPaths: string[];
+}
+
+/**
+ * Rewrites inserted emote markup across many notes in two passes: `plan`
+ * reads the notes and counts what would change, `apply` writes them.
+ */
+export class EmoteMarkupRewriter {
+	constructor(
+		private readonly app: App,
+		private readonly rewrite: (emote: ParsedEmoteMarkup, source: string) => string | null,
+		private readonly formats: EmoteMarkupFormat[] = ['picture', 'span']
+	) {}
+
+	async plan(files: TFile[]): Promise<NoteRewritePlan[]> {
+		const plans: NoteRewritePlan[] = [];
+		for (const file of files) {
+			const content = await this.app.vault.cachedRead(file);
+			const result = rewriteEmoteMarkup(content, this.rewrite, this.formats);
+			if (result.changed > 0 || result.skipped > 0) {
+				plans.push({ file, changed: result.changed, skipped: result.skipped });
+			}
+		}
+		return plans;
+	}
+
+	/**
+	 * Notes are rewritten from their current content, so edits made since
+	 * `plan` ran are kept and the counts reflect what was actually written.
+	 */
+	async apply(plans: NoteRewritePlan[]): Promise<RewriteReport> {
+		const report: RewriteReport = { notesChanged: 0, emotesChanged: 0, skipped: 0, failedPaths: [] };
+		for (const plan of plans) {
+			if (plan.changed === 0) {
+				report.skipped += plan.skipped;
+				continue;
+			}
+			try {
+				let changed = 0;
+				let skipped = 0;
+				await this.app.vault.process(plan.file, (content) => {
+					const result = rewriteEmoteMarkup(content, this.rewrite, this.formats);
+					changed = result.changed;
+					skipped = result.skipped;
+					return result.text;
+				});
+				if (changed > 0) {
+					report.notesChanged++;
+					report.emotesChanged += changed;
+				}
+				report.skipped += skipped;
+			} catch {
+				report.failedPaths.push(plan.file.path);
+			}
+		}
+		return report;
+	}
+}
+
+export function describeRewriteReport(report: RewriteReport, verb: string): string {
+	const lines = [`${verb} ${report.emotesChanged} emotes in ${report.notesChanged} notes.`];
+	if (report.skipped > 0) {
+		lines.push(`${report.skipped} emotes could not be converted and were left unchanged.`);
+	}
+	if (report.failedPaths.length > 0) {
+		lines.push(`Could not write: ${report.failedPaths.join(', ')}`);
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,256 @@
+import { App, Editor, Menu, Modal, setIcon } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { ResolvedEmote } from './types';
+
+type PickerTab = 'recent' | 'favorites' | 'all' | { sourceId: string; label: string };
+
+// Rendering thousands of tiles makes the grid sluggish; searching narrows it.
+const MAX_TILES = 300;
+const PREVIEW_SIZE = 2;
+
+/**
+ * Browsable grid over the loaded emotes, for when you do not remember a
+ * name well enough to type it. Arrow keys move between tiles and Enter
+ * inserts the focused one at the cursor.
+ */
+export class EmotePickerModal extends Modal {
+	private query = '';
+	private tab: PickerTab;
+	private tabsEl: HTMLElement | null = null;
+	private statusEl: HTMLElement | null = null;
+	private gridEl: HTMLElement | null = null;
+	private searchEl: HTMLInputElement | null = null;
+	private visibleEmotes: ResolvedEmote[] = [];
+
+	constructor(
+		app: App,
+		private readonly plugin: SevenTVPlugin,
+		private readonly editor: Editor
+	) {
+		super(app);
+		this.tab = plugin.getRecentEmotes().length > 0 ? 'recent' : 'all';
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('seven-tv-picker-modal');
+		this.titleEl.setText('Insert emote');
+
+		this.searchEl = contentEl.createEl('input', {
+			cls: 'seven-tv-picker-search',
+			attr: { type: 'text', placeholder: 'Filter emotes...' }
+		});
+		this.searchEl.addEventListener('input', () => {
+			this.query = this.searchEl?.value.trim().toLowerCase() ?? '';
+			this.renderGrid();
+		});
+		this.searchEl.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'ArrowDown') {
+				event.preventDefault();
+				this.focusTile(0);
+			} else if (event.key === 'Enter' && this.visibleEmotes.length > 0) {
+				event.preventDefault();
+				this.choose(this.visibleEmotes[0]);
+			}
+		});
+
+		this.tabsEl = contentEl.createDiv({ cls: 'seven-tv-picker-tabs' });
+		this.statusEl = contentEl.createDiv({ cls: 'seven-tv-search-status' });
+		this.gridEl = contentEl.createDiv({ cls: 'seven-tv-emote-grid seven-tv-picker-grid' });
+
+		this.renderTabs();
+		this.renderGrid();
+		window.requestAnimationFrame(() => this.searchEl?.focus());
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderTabs(): void {
+		if (!this.tabsEl) {
+			return;
+		}
+		this.tabsEl.empty();
+		const tabs: { tab: PickerTab; label: string }[] = [
+			{ tab: 'recent', label: 'Recent' },
+			{ tab: 'favorites', label: 'Favorites' },
+			{ tab: 'all', label: 'All' },
+			...this.getSourceTabs().map((tab) => ({ tab, label: tab.label }))
+		];
+		for (const { tab, label } of tabs) {
+			const button = this.tabsEl.createEl('button', { cls: 'seven-tv-picker-tab', text: label });
+			button.toggleClass('is-active', isSameTab(tab, this.tab));
+			button.addEventListener('click', () => {
+				this.tab = tab;
+				this.renderTabs();
+				this.renderGrid();
+			});
+		}
+	}
+
+	private renderGrid(): void {
+		if (!this.gridEl) {
+			return;
+		}
+		this.gridEl.empty();
+		const matching = this.getTabEmotes().filter((emote) => emote.name.toLowerCase().includes(this.query));
+		this.visibleEmotes = matching.slice(0, MAX_TILES);
+
+		if (matching.length === 0) {
+			this.statusEl?.setText(this.getEmptyMessage());
+		} else if (matching.length > MAX_TILES) {
+			this.statusEl?.setText(`Showing ${MAX_TILES} of ${matching.length} emotes. Type to narrow them down.`);
+		} else {
+			this.statusEl?.setText('');
+		}
+
+		this.visibleEmotes.forEach((emote, index) => this.renderTile(emote, index));
+	}
+
+	private renderTile(emote: ResolvedEmote, index: number): void {
+		if (!this.gridEl) {
+			return;
+		}
+		const tile = this.gridEl.createDiv({ cls: 'seven-tv-emote-tile' });
+		tile.setAttribute('title', `:${emote.name}: · ${emote.sourceLabel}`);
+		tile.setAttribute('tabindex', '0');
+
+		const image = tile.createEl('img', { cls: 'seven-tv-emote-tile-img seven-tv-picker-img' });
+		image.setAttribute('src', this.plugin.getEmotePreviewUrl(emote, PREVIEW_SIZE));
+		image.setAttribute('alt', emote.name);
+		image.setAttribute('loading', 'lazy');
+		tile.createDiv({ cls: 'seven-tv-emote-tile-name', text: emote.name });
+
+		const isFavorite = this.plugin.isFavoriteEmote(emote);
+		const star = tile.createDiv({ cls: 'seven-tv-picker-star' });
+		star.toggleClass('is-favorite', isFavorite);
+		star.setAttribute('aria-label', isFavorite ? 'Remove from favorites' : 'Add to favorites');
+		setIcon(star, 'star');
+		star.addEventListener('click', (event: MouseEvent) => {
+			event.stopPropagation();
+			void this.toggleFavorite(emote, index);
+		});
+
+		tile.addEventListener('click', () => this.choose(emote));
+		tile.addEventListener('contextmenu', (event: MouseEvent) => {
+			event.preventDefault();
+			new Menu()
+				.addItem((item) => {
+					item
+						.setTitle(isFavorite ? 'Remove from favorites' : 'Add to favorites')
+						.setIcon('star')
+						.onClick(() => {
+							void this.toggleFavorite(emote, index);
+						});
+				})
+				.showAtMouseEvent(event);
+		});
+		tile.addEventListener('keydown', (event: KeyboardEvent) => this.handleTileKey(event, emote, index));
+	}
+
+	private handleTileKey(event: KeyboardEvent, emote: ResolvedEmote, index: number): void {
+		const columns = this.getColumnCount();
+		const moves: Record<string, number> = {
+			ArrowLeft: -1,
+			ArrowRight: 1,
+			ArrowUp: -columns,
+			ArrowDown: columns
+		};
+		if (event.key === 'Enter') {
+			event.preventDefault();
+			this.choose(emote);
+		} else if (event.key === 'f') {
+			event.preventDefault();
+			void this.toggleFavorite(emote, index);
+		} else if (event.key in moves) {
+			event.preventDefault();
+			const target = index + moves[event.key];
+			if (target < 0) {
+				this.searchEl?.focus();
+			} else {
+				this.focusTile(Math.min(target, this.visibleEmotes.length - 1));
+			}
+		}
+	}
+
+	private async toggleFavorite(emote: ResolvedEmote, index: number): Promise<void> {
+		await this.plugin.toggleFavoriteEmote(emote);
+		this.renderGrid();
+		this.focusTile(Math.min(index, this.visibleEmotes.length - 1));
+	}
+
+	private focusTile(index: number): void {
+		const tile = this.gridEl?.children[index];
+		if (tile instanceof HTMLElement) {
+			tile.focus();
+			tile.scrollIntoView({ block: 'nearest' });
+		}
+	}
+
+	/**
+	 * The grid wraps to the modal width, so a row is however many tiles
+	 * share the first tile's vertical position.
+	 */
+	private getColumnCount(): number {
+		const tiles = Array.from(this.gridEl?.children ?? []) as HTMLElement[];
+		if (tiles.length === 0) {
+			return 1;
+		}
+		const top = tiles[0].offsetTop;
+		return Math.max(1, tiles.filter((tile) => tile.offsetTop === top).length);
+	}
+
+	private getTabEmotes(): ResolvedEmote[] {
+		if (this.tab === 'recent') {
+			return this.plugin.getRecentEmotes();
+		}
+		if (this.tab === 'favorites') {
+			return this.plugin.getFavoriteEmotes();
+		}
+		const emotes = Array.from(this.plugin.getEmoteMap().values());
+		const tab = this.tab;
+		if (tab === 'all') {
+			return emotes.sort((a, b) => a.name.localeCompare(b.name));
+		}
+		return emotes
+			.filter((emote) => emote.sourceId === tab.sourceId)
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	private getSourceTabs(): { sourceId: string; label: string }[] {
+		const tabs = new Map<string, string>();
+		for (const emote of this.plugin.getEmoteMap().values()) {
+			if (!tabs.has(emote.sourceId)) {
+				tabs.set(emote.sourceId, emote.sourceLabel);
+			}
+		}
+		return Array.from(tabs, ([sourceId, label]) => ({ sourceId, label }));
+	}
+
+	private getEmptyMessage(): string {
+		if (this.query) {
+			return 'No emotes match.';
+		}
+		if (this.tab === 'recent') {
+			return 'Emotes you insert will show up here.';
+		}
+		if (this.tab === 'favorites') {
+			return 'Star an emote to add it to your favorites.';
+		}
+		return 'No emotes loaded. Add an emote source in settings.';
+	}
+
+	private choose(emote: ResolvedEmote): void {
+		this.close();
+		void this.plugin.insertEmoteByStrategy(this.editor, emote);
+	}
+}
+
+function isSameTab(a: PickerTab, b: PickerTab): boolean {
+	if (typeof a === 'string' || typeof b === 'string') {
+		return a === b;
+	}
+	return a.sourceId === b.sourceId;
+}
@@ -0,0 +1,61 @@
+import type SevenTVPlugin from '../index';
+import { extractEmoteName, parseEmoteMarkup } from './emoteMarkup';
+import {
+	attachEmoteFallback,
+	formatSrcset,
+	parseSrcset,
+	resolveCachedEmoteSources,
+	SrcsetCandidate
+} from './utils';
+
+/**
+ * Rewires emotes in Reading view to the best source this device has. Cached
+ * files are used when present, missing ones are queued for a background
+ * download, and an emote that cannot load at all shows as `:name:` text.
+ * Shortcodes are rendered after the HTML emotes so both get the same
+ * treatment.
+ */
+export class EmotePostProcessor {
+	constructor(private readonly plugin: SevenTVPlugin) {}
+
+	process(root: HTMLElement): void {
+		resolveCachedEmoteSources(root, (path) => this.plugin.resolveCacheResourceUrl(path));
+		for (const wrapper of Array.from(root.querySelectorAll<HTMLElement>('.seven-tv-emote'))) {
+			this.rewireEmote(wrapper);
+		}
+		this.plugin.getEmoteRenderer().renderShortcodes(root);
+	}
+
+	private rewireEmote(wrapper: HTMLElement): void {
+		const image = wrapper.querySelector('img');
+		if (!image) {
+			return;
+		}
+		const html = wrapper.outerHTML;
+		const name = extractEmoteName(html);
+		const parsed = parseEmoteMarkup(html);
+		const emote = parsed ? this.plugin.resolveParsedEmote(parsed) : null;
+		if (!parsed || !emote) {
+			attachEmoteFallback(wrapper, name, null);
+			return;
+		}
+
+		const files = this.plugin.getEmoteFiles(emote, parsed.size);
+		const cachedUrls = files.map((file) => this.plugin.resolveCacheResourceUrl(file.cachePath));
+		const isFullyCached = cachedUrls.every((url): url is string => url !== null);
+
+		// `<span>` emotes are written without a cache source, so a cached
+		// copy is swapped in here with the CDN as the fallback.
+		let fallback: SrcsetCandidate[] | null = null;
+		if (wrapper.tagName === 'SPAN' && isFullyCached) {
+			fallback = parseSrcset(image.getAttribute('srcset') ?? image.getAttribute('src') ?? '');
+			image.setAttribute('srcset', formatSrcset(files.map((file, index) => ({ url: cachedUrls[index], density: file.density }))));
+			image.setAttribute('src', cachedUrls[0]);
+		}
+		attachEmoteFallback(wrapper, name, fallback);
+
+		if (!isFullyCached) {
+			this.plugin.queueCacheFill(emote, parsed.size);
+		}
+	}
+}
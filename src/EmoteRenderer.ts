@@ -0,0 +1,92 @@
+import type SevenTVPlugin from '../index';
+import { findEmoteShortcodes } from './emoteMarkup';
+import { EmoteRecord, EmoteSize } from './types';
+import { attachEmoteFallback, formatSrcset } from './utils';
+
+// Text inside these is shown verbatim and never turned into emotes.
+const SKIPPED_ANCESTORS = 'code, pre, a, .seven-tv-emote, .frontmatter, .math';
+
+/**
+ * Builds emote elements at render time for notes that store shortcodes
+ * instead of HTML. Images come from the local cache when the file exists on
+ * this device and from the CDN otherwise, in which case the cache is filled
+ * in the background.
+ */
+export class EmoteRenderer {
+	constructor(private readonly plugin: SevenTVPlugin) {}
+
+	createElement(emote: EmoteRecord, size: EmoteSize = 1): HTMLElement {
+		const files = this.plugin.getEmoteFiles(emote, size);
+		const cdnCandidates = files.map((file) => ({ url: file.cdnUrl, density: file.density }));
+		const candidates = files.map((file) => ({
+			url: this.plugin.resolveCacheResourceUrl(file.cachePath) ?? file.cdnUrl,
+			density: file.density
+		}));
+		const cachedCount = candidates.filter((candidate, index) => candidate.url !== cdnCandidates[index].url).length;
+
+		const wrapper = document.createElement('span');
+		wrapper.addClass('seven-tv-emote');
+		wrapper.setAttribute('data-provider', emote.provider);
+		if (size > 1) {
+			wrapper.setAttribute('data-size', String(size));
+		}
+		wrapper.setAttribute('title', `:${emote.name}:`);
+
+		const image = wrapper.createEl('img', { cls: 'seven-tv-inline-emote' });
+		image.setAttribute('src', candidates[0].url);
+		image.setAttribute('srcset', formatSrcset(candidates));
+		image.setAttribute('alt', `:${emote.name}:`);
+		image.setAttribute('loading', 'lazy');
+		image.setAttribute('decoding', 'async');
+		if (emote.width && emote.height) {
+			image.setAttribute('width', String(emote.width * size));
+			image.setAttribute('height', String(emote.height * size));
+		}
+		attachEmoteFallback(wrapper, emote.name, cachedCount > 0 ? cdnCandidates : null);
+		if (cachedCount < files.length) {
+			this.plugin.queueCacheFill(emote, size);
+		}
+		return wrapper;
+	}
+
+	/**
+	 * Replaces resolvable shortcodes in the rendered text of `root`. Unknown
+	 * names are left as text.
+	 */
+	renderShortcodes(root: HTMLElement): void {
+		const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+		const textNodes: Text[] = [];
+		let node: Node | null;
+		while ((node = walker.nextNode()) !== null) {
+			const text = node as Text;
+			if (text.data.includes(':') && !text.parentElement?.closest(SKIPPED_ANCESTORS)) {
+				textNodes.push(text);
+			}
+		}
+
+		for (const text of textNodes) {
+			this.replaceShortcodes(text);
+		}
+	}
+
+	private replaceShortcodes(text: Text): void {
+		const content = text.data;
+		const fragment = document.createDocumentFragment();
+		let lastIndex = 0;
+		for (const match of findEmoteShortcodes(content)) {
+			const emote = this.plugin.resolveShortcode(match);
+			if (!emote) {
+				continue;
+			}
+			fragment.appendChild(document.createTextNode(content.slice(lastIndex, match.from)));
+			fragment.appendChild(this.createElement(emote, match.size));
+			lastIndex = match.to;
+		}
+
+		if (lastIndex === 0) {
+			return;
+		}
+		fragment.appendChild(document.createTextNode(content.slice(lastIndex)));
+		text.replaceWith(fragment);
+	}
+}
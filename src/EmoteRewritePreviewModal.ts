@@ -0,0 +1,76 @@
+import { App, Modal, Setting } from 'obsidian';
+import { NoteRewritePlan } from './EmoteMarkupRewriter';
+
+const MAX_LISTED_NOTES = 200;
+
+/**
+ * Lists the notes a bulk emote rewrite would touch, with per-note counts,
+ * and only writes once the user confirms.
+ */
+export class EmoteRewritePreviewModal extends Modal {
+	constructor(
+		app: App,
+		private readonly heading: string,
+		private readonly plans: NoteRewritePlan[],
+		private readonly onConfirm: (() => Promise<void> | void) | null
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('seven-tv-rewrite-modal');
+		this.titleEl.setText(this.heading);
+
+		const changing = this.plans.filter((plan) => plan.changed > 0);
+		const emoteCount = changing.reduce((total, plan) => total + plan.changed, 0);
+		const skippedCount = this.plans.reduce((total, plan) => total + plan.skipped, 0);
+
+		const summary = [`${emoteCount} emotes in ${changing.length} notes will be rewritten.`];
+		if (skippedCount > 0) {
+			summary.push(`${skippedCount} emotes could not be converted and will be left as they are.`);
+		}
+		contentEl.createEl('p', { cls: 'seven-tv-modal-paragraph', text: summary.join(' ') });
+
+		const listEl = contentEl.createEl('ul', { cls: 'seven-tv-rewrite-list' });
+		for (const plan of this.plans.slice(0, MAX_LISTED_NOTES)) {
+			const item = listEl.createEl('li');
+			item.createSpan({ cls: 'seven-tv-rewrite-path', text: plan.file.path });
+			const counts = [`${plan.changed} to rewrite`];
+			if (plan.skipped > 0) {
+				counts.push(`${plan.skipped} skipped`);
+			}
+			item.createSpan({ cls: 'seven-tv-rewrite-count', text: counts.join(' · ') });
+		}
+		if (this.plans.length > MAX_LISTED_NOTES) {
+			listEl.createEl('li', {
+				cls: 'seven-tv-rewrite-more',
+				text: `...and ${this.plans.length - MAX_LISTED_NOTES} more notes`
+			});
+		}
+
+		const actions = new Setting(contentEl).setClass('seven-tv-modal-actions');
+		const onConfirm = this.onConfirm;
+		if (onConfirm && emoteCount > 0) {
+			actions.addButton((button) => {
+				button
+					.setButtonText(`Rewrite ${emoteCount} emotes`)
+					.setCta()
+					.onClick(() => {
+						this.close();
+						void onConfirm();
+					});
+			});
+		}
+		actions.addButton((button) => {
+			button
+				.setButtonText(onConfirm ? 'Cancel' : 'Close')
+				.onClick(() => this.close());
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,196 @@
+import { App, ButtonComponent, Editor, Modal, Setting } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { EmoteSearchResult } from './api';
+import { describeApiError } from './errors';
+import { EmoteRecord } from './types';
+
+type AnimatedFilter = 'all' | 'animated' | 'static';
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 350;
+
+export class EmoteSearchModal extends Modal {
+	private query = '';
+	private animatedFilter: AnimatedFilter = 'all';
+	private page = 1;
+	private totalResults = 0;
+	private requestToken = 0;
+	private debounceId: number | null = null;
+	private gridEl: HTMLElement | null = null;
+	private statusEl: HTMLElement | null = null;
+	private pageLabelEl: HTMLElement | null = null;
+	private prevButton: ButtonComponent | null = null;
+	private nextButton: ButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		private readonly plugin: SevenTVPlugin,
+		private readonly editor: Editor
+	) {
+		super(app);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('seven-tv-search-modal');
+		this.titleEl.setText('Search 7TV emotes');
+
+		const controls = new Setting(contentEl).setClass('seven-tv-search-controls');
+		controls.addText((text) => {
+			text.setPlaceholder('Search all of 7TV...');
+			text.onChange((value) => {
+				this.query = value.trim();
+				this.page = 1;
+				this.scheduleSearch();
+			});
+			window.requestAnimationFrame(() => text.inputEl.focus());
+		});
+		controls.addDropdown((dropdown) => {
+			dropdown
+				.addOption('all', 'All emotes')
+				.addOption('animated', 'Animated only')
+				.addOption('static', 'Static only')
+				.setValue(this.animatedFilter)
+				.onChange((value: AnimatedFilter) => {
+					this.animatedFilter = value;
+					this.page = 1;
+					void this.runSearch();
+				});
+		});
+
+		this.statusEl = contentEl.createDiv({ cls: 'seven-tv-search-status' });
+		this.gridEl = contentEl.createDiv({ cls: 'seven-tv-emote-grid' });
+
+		const pager = new Setting(contentEl).setClass('seven-tv-search-pager');
+		this.pageLabelEl = pager.nameEl;
+		pager.addButton((button) => {
+			this.prevButton = button;
+			button.setButtonText('Previous').onClick(() => this.changePage(-1));
+		});
+		pager.addButton((button) => {
+			this.nextButton = button;
+			button.setButtonText('Next').onClick(() => this.changePage(1));
+		});
+
+		this.renderResults(null);
+	}
+
+	onClose(): void {
+		this.clearDebounce();
+		this.requestToken++;
+		this.contentEl.empty();
+	}
+
+	private scheduleSearch(): void {
+		this.clearDebounce();
+		this.debounceId = window.setTimeout(() => {
+			this.debounceId = null;
+			void this.runSearch();
+		}, SEARCH_DEBOUNCE_MS);
+	}
+
+	private clearDebounce(): void {
+		if (this.debounceId !== null) {
+			window.clearTimeout(this.debounceId);
+			this.debounceId = null;
+		}
+	}
+
+	private changePage(delta: number): void {
+		const nextPage = this.page + delta;
+		if (nextPage < 1 || nextPage > this.getPageCount()) {
+			return;
+		}
+		this.page = nextPage;
+		void this.runSearch();
+	}
+
+	private async runSearch(): Promise<void> {
+		if (!this.query) {
+			this.totalResults = 0;
+			this.renderResults(null);
+			return;
+		}
+
+		// Responses can arrive out of order while the user keeps typing.
+		const token = ++this.requestToken;
+		this.statusEl?.setText('Searching...');
+		try {
+			const result = await this.plugin.searchEmotes({
+				query: this.query,
+				page: this.page,
+				limit: PAGE_SIZE,
+				animated: this.animatedFilter === 'all' ? null : this.animatedFilter === 'animated'
+			});
+			if (token !== this.requestToken) {
+				return;
+			}
+			this.totalResults = result.total;
+			this.renderResults(result);
+		} catch (error) {
+			if (token !== this.requestToken) {
+				return;
+			}
+			this.plugin.logMessage(`Emote search failed: ${error}`, 'verbose');
+			this.totalResults = 0;
+			this.renderResults(null);
+			this.statusEl?.setText(`Search failed: ${describeApiError(error)}`);
+		}
+	}
+
+	private renderResults(result: EmoteSearchResult | null): void {
+		if (!this.gridEl) {
+			return;
+		}
+		this.gridEl.empty();
+
+		if (!result) {
+			this.statusEl?.setText(this.query ? '' : 'Type to search every emote on 7TV.');
+		} else if (result.items.length === 0) {
+			this.statusEl?.setText('No emotes found.');
+		} else {
+			this.statusEl?.setText(`${result.total} emotes found`);
+			for (const emote of result.items) {
+				this.renderEmoteTile(emote);
+			}
+		}
+
+		const pageCount = this.getPageCount();
+		this.pageLabelEl?.setText(pageCount > 0 ? `Page ${this.page} of ${pageCount}` : '');
+		this.prevButton?.setDisabled(this.page <= 1);
+		this.nextButton?.setDisabled(this.page >= pageCount);
+	}
+
+	private renderEmoteTile(emote: EmoteRecord): void {
+		if (!this.gridEl) {
+			return;
+		}
+		const tile = this.gridEl.createDiv({ cls: 'seven-tv-emote-tile' });
+		tile.setAttribute('title', emote.ownerName ? `:${emote.name}: by ${emote.ownerName}` : `:${emote.name}:`);
+		tile.setAttribute('tabindex', '0');
+
+		const image = tile.createEl('img', { cls: 'seven-tv-emote-tile-img' });
+		image.setAttribute('src', this.plugin.getEmotePreviewUrl(emote));
+		image.setAttribute('alt', emote.name);
+		image.setAttribute('loading', 'lazy');
+		tile.createDiv({ cls: 'seven-tv-emote-tile-name', text: emote.name });
+
+		tile.addEventListener('click', () => this.choose(emote));
+		tile.addEventListener('keydown', (event: KeyboardEvent) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				this.choose(emote);
+			}
+		});
+	}
+
+	private choose(emote: EmoteRecord): void {
+		this.close();
+		void this.plugin.insertEmoteByStrategy(this.editor, emote);
+	}
+
+	private getPageCount(): number {
+		return Math.ceil(this.totalResults / PAGE_SIZE);
+	}
+}
@@ -0,0 +1,68 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import { EmoteSetSummary } from './types';
+
+const FOLLOW_ACTIVE_SET: EmoteSetSummary = {
+	id: '',
+	name: 'Follow active set',
+	emoteCount: null,
+	isActive: false
+};
+
+export class EmoteSetSuggestModal extends FuzzySuggestModal<EmoteSetSummary> {
+	constructor(
+		app: App,
+		private readonly sets: EmoteSetSummary[],
+		private readonly selectedSetId: string,
+		private readonly onChoose: (set: EmoteSetSummary | null) => void
+	) {
+		super(app);
+		this.setPlaceholder('Choose an emote set...');
+	}
+
+	getItems(): EmoteSetSummary[] {
+		return [FOLLOW_ACTIVE_SET, ...this.sets];
+	}
+
+	getItemText(item: EmoteSetSummary): string {
+		return item.name;
+	}
+
+	onChooseItem(item: EmoteSetSummary): void {
+		this.onChoose(item === FOLLOW_ACTIVE_SET ? null : item);
+	}
+
+	renderSuggestion(fuzzyMatch: FuzzyMatch<EmoteSetSummary>, el: HTMLElement): void {
+		const item = fuzzyMatch.item;
+		const container = el.createDiv({ cls: 'seven-tv-streamer-suggestion-container' });
+		const info = container.createDiv({ cls: 'seven-tv-streamer-info-section' });
+
+		info.createDiv({
+			cls: 'seven-tv-streamer-suggestion-name',
+			text: item.name
+		});
+
+		const details: string[] = [];
+		if (item === FOLLOW_ACTIVE_SET) {
+			details.push('Always use the set that is active on the channel');
+		} else {
+			if (item.emoteCount !== null) {
+				details.push(`${item.emoteCount} emotes`);
+			}
+			if (item.isActive) {
+				details.push('Active on channel');
+			}
+			details.push(`Set ID: ${item.id}`);
+		}
+		info.createDiv({
+			cls: 'seven-tv-streamer-suggestion-id',
+			text: details.join(' · ')
+		});
+
+		if (item.id === this.selectedSetId) {
+			container.createDiv({
+				cls: 'seven-tv-streamer-selected-indicator',
+				text: '✓ Selected'
+			});
+		}
+	}
+}
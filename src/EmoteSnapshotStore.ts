@@ -0,0 +1,98 @@
+import { normalizePath } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { EmoteRecord, LoadedEmoteSet } from './types';
+
+const SNAPSHOT_FILE = 'emote-snapshot.json';
+const SNAPSHOT_VERSION = 1;
+
+interface SnapshotSetData {
+	sourceId: string;
+	label: string;
+	provider: LoadedEmoteSet['provider'];
+	isGlobal: boolean;
+	setId: string | null;
+	fetchedAt: number;
+	emotes: EmoteRecord[];
+}
+
+interface SnapshotData {
+	version: number;
+	savedAt: number;
+	sets: SnapshotSetData[];
+}
+
+export interface SnapshotInfo {
+	savedAt: number;
+	setCount: number;
+}
+
+/**
+ * Keeps the last fetched emote sets in the plugin folder so suggestions are
+ * available immediately on startup, including when the app is offline.
+ */
+export class EmoteSnapshotStore {
+	private info: SnapshotInfo | null = null;
+
+	constructor(private readonly plugin: SevenTVPlugin) {}
+
+	getInfo(): SnapshotInfo | null {
+		return this.info;
+	}
+
+	async load(): Promise<LoadedEmoteSet[]> {
+		const path = this.getPath();
+		try {
+			if (!(await this.plugin.app.vault.adapter.exists(path))) {
+				return [];
+			}
+
+			const data = JSON.parse(await this.plugin.app.vault.adapter.read(path)) as SnapshotData;
+			if (!data || data.version !== SNAPSHOT_VERSION || !Array.isArray(data.sets)) {
+				this.plugin.logMessage('Ignoring emote snapshot with unknown format', 'verbose');
+				return [];
+			}
+
+			this.info = { savedAt: data.savedAt, setCount: data.sets.length };
+			return data.sets.map((set) => ({
+				sourceId: set.sourceId,
+				label: set.label,
+				provider: set.provider,
+				isGlobal: set.isGlobal,
+				setId: set.setId,
+				fetchedAt: set.fetchedAt,
+				emotes: new Map(set.emotes.map((emote) => [emote.name, emote]))
+			}));
+		} catch (error) {
+			this.plugin.logMessage(`Failed to read emote snapshot: ${error}`, 'basic');
+			return [];
+		}
+	}
+
+	async save(sets: LoadedEmoteSet[]): Promise<void> {
+		const data: SnapshotData = {
+			version: SNAPSHOT_VERSION,
+			savedAt: Date.now(),
+			sets: sets.map((set) => ({
+				sourceId: set.sourceId,
+				label: set.label,
+				provider: set.provider,
+				isGlobal: set.isGlobal,
+				setId: set.setId,
+				fetchedAt: set.fetchedAt,
+				emotes: Array.from(set.emotes.values())
+			}))
+		};
+
+		try {
+			await this.plugin.app.vault.adapter.write(this.getPath(), JSON.stringify(data));
+			this.info = { savedAt: data.savedAt, setCount: data.sets.length };
+			this.plugin.logMessage(`Saved emote snapshot with ${data.sets.length} sets`, 'verbose');
+		} catch (error) {
+			this.plugin.logMessage(`Failed to write emote snapshot: ${error}`, 'basic');
+		}
+	}
+
+	private getPath(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/${SNAPSHOT_FILE}`);
+	}
+}
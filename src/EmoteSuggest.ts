@@ -1,85 +1,264 @@
+import { EditorView } from '@codemirror/view';
 import {
 	App,
 	Editor,
 	EditorPosition,
 	EditorSuggest,
 	EditorSuggestContext,
-	EditorSuggestTriggerInfo
+	EditorSuggestTriggerInfo,
+	setIcon,
+	TFile
 } from 'obsidian';
 import type SevenTVPlugin from '../index';
+import { isInVerbatimSyntax } from './EmoteEditorExtension';
+import { EmoteCandidate, rankEmotes } from './emoteRanking';
+import { describeEmoteSource } from './providers';
+import { EmoteRef, EmoteSize, LoadedEmoteSet, ResolvedEmote } from './types';
+import { getEmoteKey } from './utils';
 
-export class EmoteSuggest extends EditorSuggest<string> {
-	private emoteMap: Map<string, string> = new Map();
+const MAX_SUGGESTIONS = 25;
+const SUGGESTIONS_FRONTMATTER_KEY = '7tv-suggestions';
+
+interface TriggerPatterns {
+	character: string;
+	query: RegExp;
+	empty: RegExp;
+}
+
+interface EmoteIndex {
+	byName: Map<string, ResolvedEmote>;
+	byId: Map<string, ResolvedEmote>;
+}
+
+export class EmoteSuggest extends EditorSuggest<EmoteCandidate> {
+	private sets: LoadedEmoteSet[] = [];
+	private index: EmoteIndex = { byName: new Map(), byId: new Map() };
+	private scopedIndexes = new WeakMap<LoadedEmoteSet, EmoteIndex>();
+	// The emotes offered in the note being edited, picked on each trigger.
+	private activeIndex: EmoteIndex = this.index;
+	private triggerPatterns: TriggerPatterns | null = null;
 
 	constructor(app: App, private readonly plugin: SevenTVPlugin) {
 		super(app);
 	}
 
-	updateEmoteMap(newMap: Map<string, string>): void {
-		this.emoteMap = new Map(newMap);
-		this.plugin.logMessage(`Emote map updated with ${newMap.size} emotes`, 'verbose');
+	/**
+	 * Merges the given sets into one namespace. Sets are expected in priority
+	 * order, so the first set that defines a name wins any clash.
+	 */
+	updateEmoteSets(sets: LoadedEmoteSet[]): void {
+		this.sets = sets;
+		this.index = buildEmoteIndex(sets);
+		this.scopedIndexes = new WeakMap();
+		this.activeIndex = this.index;
+		this.plugin.logMessage(`Emote map updated with ${this.index.byName.size} emotes from ${sets.length} sets`, 'verbose');
+	}
+
+	getEmoteMap(): Map<string, ResolvedEmote> {
+		return this.index.byName;
 	}
 
-	getEmoteMap(): Map<string, string> {
-		return this.emoteMap;
+	findEmoteById(ref: EmoteRef): ResolvedEmote | null {
+		return this.index.byId.get(getEmoteKey(ref)) ?? null;
 	}
 
 	getEmoteCount(): number {
-		return this.emoteMap.size;
+		return this.index.byName.size;
 	}
 
-	onTrigger(cursor: EditorPosition, editor: Editor): EditorSuggestTriggerInfo | null {
-		const line = editor.getLine(cursor.line);
-		const sub = line.substring(0, cursor.ch);
-		const match = sub.match(/:([a-zA-Z0-9_]+):?$/);
-		if (!match) {
+	onTrigger(cursor: EditorPosition, editor: Editor, file: TFile | null): EditorSuggestTriggerInfo | null {
+		if (this.isDisabledForFile(file)) {
 			return null;
 		}
+		this.activeIndex = this.getIndexForFile(file);
+		const { triggerCharacter, minQueryLength } = this.plugin.settings;
+		const patterns = this.getTriggerPatterns(triggerCharacter);
+		const line = editor.getLine(cursor.line);
+		const sub = line.substring(0, cursor.ch);
 
-		const fullMatch = match[0];
-		const query = match[1];
-		const startPos = cursor.ch - fullMatch.length;
+		let trigger: EditorSuggestTriggerInfo | null = null;
+		// A lone trigger after a space or at the start of a line lists favorites.
+		if (patterns.empty.test(sub)) {
+			if (this.plugin.settings.favoriteEmotes.length > 0) {
+				trigger = { start: { line: cursor.line, ch: cursor.ch - 1 }, end: cursor, query: '' };
+			}
+		} else {
+			const match = sub.match(patterns.query);
+			if (!match || match[1].length < minQueryLength) {
+				return null;
+			}
+			const fullMatch = match[0];
+			const name = match[1];
+			const startPos = cursor.ch - fullMatch.length;
+			const isClosed = fullMatch.length > name.length + 1;
+			// In shortcode mode a closed `:name:` is already the finished emote.
+			if (this.plugin.settings.insertionFormat === 'shortcode' && triggerCharacter === ':' && isClosed && this.activeIndex.byName.has(name)) {
+				return null;
+			}
+			if (!isTriggerBoundary(sub, startPos)) {
+				return null;
+			}
+			trigger = {
+				start: { line: cursor.line, ch: startPos },
+				end: cursor,
+				query: match[2] ? `${name}:${match[2]}x` : name
+			};
+		}
 
-		return {
-			start: { line: cursor.line, ch: Math.max(0, startPos) },
-			end: cursor,
-			query
-		};
+		if (!trigger || this.isInVerbatimText(editor, trigger.start)) {
+			return null;
+		}
+		return trigger;
 	}
 
-	getSuggestions(context: EditorSuggestContext): string[] {
-		const query = context.query.toLowerCase();
-		return Array.from(this.emoteMap.keys())
-			.filter((name) => name.toLowerCase().includes(query))
-			.slice(0, 25);
+	getSuggestions(context: EditorSuggestContext): EmoteCandidate[] {
+		const query = parseQuery(context.query).name;
+		if (!query) {
+			// Only the favorites this note can use, as in its scoped index.
+			const { byId } = this.activeIndex;
+			return this.plugin.settings.favoriteEmotes
+				.map((favorite) => byId.get(getEmoteKey(favorite)))
+				.filter((emote): emote is ResolvedEmote => emote !== undefined)
+				.slice(0, MAX_SUGGESTIONS)
+				.map((emote) => ({ emote, alias: null }));
+		}
+		const signals = {
+			usage: this.plugin.settings.emoteUsage,
+			favorites: this.plugin.settings.favoriteEmotes
+		};
+		return rankEmotes(this.getCandidates(), query, signals, MAX_SUGGESTIONS);
 	}
 
-	renderSuggestion(value: string, el: HTMLElement): void {
+	renderSuggestion({ emote, alias }: EmoteCandidate, el: HTMLElement): void {
 		el.empty();
 		const container = el.createDiv({ cls: 'seven-tv-suggestion-item' });
-		const emoteId = this.emoteMap.get(value);
-
-		if (emoteId) {
-			const image = container.createEl('img');
-			image.addClass('seven-tv-suggestion-img');
-			image.setAttribute('src', `https://cdn.7tv.app/emote/${emoteId}/1x.webp`);
-			image.setAttribute('alt', value);
-			image.setAttribute('data-emote-name', value);
+		container.setAttribute('title', describeEmote(emote));
+
+		const image = container.createEl('img');
+		image.addClass('seven-tv-suggestion-img');
+		image.setAttribute('src', this.plugin.getEmotePreviewUrl(emote));
+		image.setAttribute('alt', emote.name);
+		image.setAttribute('data-emote-name', emote.name);
+		if (emote.width && emote.height) {
+			image.style.setProperty('aspect-ratio', `${emote.width} / ${emote.height}`);
 		}
 
+		const size = this.context ? parseQuery(this.context.query).size : null;
+		const suffix = size && size > 1 ? `${size}x` : '';
 		container.createSpan({
 			cls: 'seven-tv-suggestion-text',
-			text: `:${value}:`
+			text: `:${alias ?? emote.name}:${suffix}`
+		});
+		if (alias) {
+			container.createSpan({ cls: 'seven-tv-suggestion-alias-target', text: `→ :${emote.name}:` });
+		}
+
+		const sourceEl = container.createSpan({
+			cls: 'seven-tv-suggestion-source',
+			text: describeEmoteSource(emote)
 		});
+		sourceEl.toggleClass('is-global', emote.isGlobal);
+		this.renderFavoriteToggle(container, emote);
 	}
 
-	selectSuggestion(value: string): void {
-		if (!this.context?.editor) {
-			return;
+	/**
+	 * Every loaded emote under its own name, plus one entry per alias whose
+	 * emote is loaded.
+	 */
+	private getCandidates(): EmoteCandidate[] {
+		const { byName, byId } = this.activeIndex;
+		const candidates: EmoteCandidate[] = Array.from(byName.values(), (emote) => ({ emote, alias: null }));
+		for (const entry of this.plugin.settings.emoteAliases) {
+			const emote = byId.get(getEmoteKey(entry));
+			if (emote) {
+				candidates.push({ emote, alias: entry.alias });
+			}
 		}
+		return candidates;
+	}
+
+	/**
+	 * A note scoped to a streamer swaps the channel sources for that
+	 * streamer's emotes, keeping local and global emotes. Until its set has
+	 * loaded the note gets the usual emotes.
+	 */
+	private getIndexForFile(file: TFile | null): EmoteIndex {
+		const scoped = this.plugin.getScopedEmoteSet(file);
+		if (!scoped) {
+			return this.index;
+		}
+		let index = this.scopedIndexes.get(scoped);
+		if (!index) {
+			index = buildEmoteIndex([
+				...this.sets.filter((set) => set.provider === 'local'),
+				scoped,
+				...this.sets.filter((set) => set.isGlobal)
+			]);
+			this.scopedIndexes.set(scoped, index);
+		}
+		return index;
+	}
+
+	/**
+	 * Notes can turn suggestions off with `7tv-suggestions: false` in their
+	 * frontmatter.
+	 */
+	private isDisabledForFile(file: TFile | null): boolean {
+		if (!file) {
+			return false;
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		return frontmatter?.[SUGGESTIONS_FRONTMATTER_KEY] === false;
+	}
 
-		const emoteId = this.emoteMap.get(value);
-		if (!emoteId) {
+	/**
+	 * Code and frontmatter are written verbatim, so emotes are never
+	 * suggested there. Looks the trigger up in the editor's own Markdown
+	 * parse, so these are recognised exactly where the editor highlights them.
+	 */
+	private isInVerbatimText(editor: Editor, position: EditorPosition): boolean {
+		const view = (editor as Editor & { cm?: EditorView }).cm;
+		if (!view) {
+			return false;
+		}
+		return isInVerbatimSyntax(view.state, editor.posToOffset(position));
+	}
+
+	private getTriggerPatterns(triggerCharacter: string): TriggerPatterns {
+		if (this.triggerPatterns?.character !== triggerCharacter) {
+			const trigger = escapeRegExp(triggerCharacter);
+			this.triggerPatterns = {
+				character: triggerCharacter,
+				// `:name`, `:name:` or `:name:2x`, where the suffix picks the emote size.
+				query: new RegExp(`${trigger}([a-zA-Z0-9_]+)(?:${trigger}(?:([1-4])x?)?)?$`),
+				empty: new RegExp(`(?:^|\\s)${trigger}$`)
+			};
+		}
+		return this.triggerPatterns;
+	}
+
+	/**
+	 * A star that toggles the favorite without selecting the suggestion.
+	 */
+	private renderFavoriteToggle(container: HTMLElement, emote: ResolvedEmote): void {
+		const star = container.createSpan({ cls: 'seven-tv-favorite-toggle' });
+		const update = () => {
+			const isFavorite = this.plugin.isFavoriteEmote(emote);
+			star.toggleClass('is-favorite', isFavorite);
+			star.setAttribute('aria-label', isFavorite ? 'Remove from favorites' : 'Add to favorites');
+		};
+		setIcon(star, 'star');
+		update();
+		star.addEventListener('mousedown', (event: MouseEvent) => event.preventDefault());
+		star.addEventListener('click', (event: MouseEvent) => {
+			event.preventDefault();
+			event.stopPropagation();
+			void this.plugin.toggleFavoriteEmote(emote).then(update);
+		});
+	}
+
+	selectSuggestion({ emote }: EmoteCandidate): void {
+		if (!this.context?.editor) {
 			return;
 		}
 
@@ -88,7 +267,77 @@ export class EmoteSuggest extends EditorSuggest<string> {
 		const hasTrailingColon = typedRange.endsWith(':');
 		const deleteEnd = hasTrailingColon ? { ...this.context.end } : this.context.end;
 
+		const size = parseQuery(this.context.query).size ?? undefined;
 		editor.replaceRange('', this.context.start, deleteEnd);
-		void this.plugin.insertEmoteByStrategy(editor, value, emoteId);
+		void this.plugin.insertEmoteByStrategy(editor, emote, size);
+	}
+}
+
+function buildEmoteIndex(sets: LoadedEmoteSet[]): EmoteIndex {
+	const byName = new Map<string, ResolvedEmote>();
+	for (const set of sets) {
+		for (const [name, record] of set.emotes) {
+			if (!byName.has(name)) {
+				byName.set(name, {
+					...record,
+					sourceId: set.sourceId,
+					sourceLabel: set.label,
+					isGlobal: set.isGlobal
+				});
+			}
+		}
+	}
+	const byId = new Map<string, ResolvedEmote>();
+	for (const emote of byName.values()) {
+		byId.set(getEmoteKey(emote), emote);
+	}
+	return { byName, byId };
+}
+
+/**
+ * Words, times like `10:30` and URLs like `host:8080` run straight into
+ * the trigger, so it only counts after a space, punctuation or the start of
+ * the line, and never inside a URL.
+ */
+function isTriggerBoundary(linePrefix: string, triggerIndex: number): boolean {
+	const before = linePrefix.charAt(triggerIndex - 1);
+	if (/[A-Za-z0-9/\\]/.test(before)) {
+		return false;
+	}
+	const token = linePrefix.substring(0, triggerIndex).split(/\s/).pop() ?? '';
+	return !token.includes('://');
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits a trigger query into the emote name and the size typed after it,
+ * if any.
+ */
+function parseQuery(query: string): { name: string; size: EmoteSize | null } {
+	const [name, sizeText] = query.split(':');
+	const size = sizeText ? Number(sizeText.replace('x', '')) : NaN;
+	return { name, size: size >= 1 && size <= 4 ? size as EmoteSize : null };
+}
+
+function describeEmote(emote: ResolvedEmote): string {
+	const details: string[] = [];
+	if (emote.originalName !== emote.name) {
+		details.push(`Originally ${emote.originalName}`);
+	}
+	if (emote.ownerName) {
+		details.push(`By ${emote.ownerName}`);
+	}
+	if (emote.animated) {
+		details.push('Animated');
+	}
+	if (emote.zeroWidth) {
+		details.push('Zero-width');
+	}
+	if (emote.tags.length > 0) {
+		details.push(`Tags: ${emote.tags.join(', ')}`);
 	}
+	return [`:${emote.name}:`, ...details].join('\n');
 }
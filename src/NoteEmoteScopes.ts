@@ -0,0 +1,121 @@
+import { TFile } from 'obsidian';
+import type SevenTVPlugin from '../index';
+import { ApiError, describeApiError, isApiError } from './errors';
+import { LoadedEmoteSet } from './types';
+import { parseTwitchUserReference } from './utils';
+
+export const SCOPE_FRONTMATTER_KEY = '7tv';
+
+/**
+ * Decides which streamer's emotes a note uses: the `7tv` frontmatter
+ * property first, then the most specific folder mapping. Either names a
+ * streamer from the built-in list, a Twitch login or a Twitch ID. Sets load
+ * the first time a note needs them and stay in memory until the settings
+ * change.
+ */
+export class NoteEmoteScopes {
+	private readonly sets = new Map<string, LoadedEmoteSet | null>();
+	private readonly pending = new Set<string>();
+	// Bumped by `clear` so loads started before it are discarded.
+	private generation = 0;
+
+	constructor(private readonly plugin: SevenTVPlugin) {}
+
+	/**
+	 * The streamer `file` is scoped to, as written in its frontmatter or the
+	 * folder mapping, or null when it uses the configured sources.
+	 */
+	getReference(file: TFile | null): string | null {
+		if (!file) {
+			return null;
+		}
+		const value: unknown = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.[SCOPE_FRONTMATTER_KEY];
+		// YAML reads a bare Twitch ID as a number.
+		if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+			return String(value).trim();
+		}
+		let best: { folder: string; streamer: string } | null = null;
+		for (const mapping of this.plugin.settings.folderEmoteSources) {
+			const isInFolder = file.path.startsWith(`${mapping.folder}/`);
+			if (mapping.streamer && isInFolder && (!best || mapping.folder.length > best.folder.length)) {
+				best = mapping;
+			}
+		}
+		return best?.streamer ?? null;
+	}
+
+	/**
+	 * The set for `file`'s streamer if it has been loaded. Otherwise starts
+	 * loading it in the background and returns null, so callers fall back to
+	 * the configured sources until it arrives.
+	 */
+	getLoadedSet(file: TFile | null): LoadedEmoteSet | null {
+		const reference = this.getReference(file);
+		if (!reference) {
+			return null;
+		}
+		const key = reference.toLowerCase();
+		if (this.sets.has(key)) {
+			return this.sets.get(key) ?? null;
+		}
+		if (!this.pending.has(key)) {
+			this.pending.add(key);
+			const generation = this.generation;
+			void this.load(reference).then((set) => {
+				if (generation === this.generation) {
+					if (set !== undefined) {
+						this.sets.set(key, set);
+					}
+					this.pending.delete(key);
+				}
+			});
+		}
+		return null;
+	}
+
+	clear(): void {
+		this.generation++;
+		this.sets.clear();
+		this.pending.clear();
+	}
+
+	/**
+	 * Resolves to null when the streamer or their emotes do not exist, so a
+	 * typo in one note does not keep retrying. Other failures, such as being
+	 * offline, resolve to undefined so the next use of the note tries again.
+	 */
+	private async load(reference: string): Promise<LoadedEmoteSet | null | undefined> {
+		try {
+			const { twitchId, label } = await this.resolveStreamer(reference);
+			const fetched = await this.plugin.fetchChannelEmotes('7tv', twitchId);
+			this.plugin.logMessage(`Loaded ${fetched.emotes.size} emotes for ${label} (note scope)`, 'verbose');
+			return {
+				...fetched,
+				sourceId: `scope:${twitchId}`,
+				label,
+				provider: '7tv',
+				isGlobal: false,
+				fetchedAt: Date.now()
+			};
+		} catch (error) {
+			this.plugin.logMessage(`Could not load emotes for ${reference}: ${describeApiError(error)}`, 'basic');
+			return isApiError(error, 'not-found') ? null : undefined;
+		}
+	}
+
+	private async resolveStreamer(reference: string): Promise<{ twitchId: string; label: string }> {
+		const lower = reference.toLowerCase();
+		const builtIn = this.plugin.settings.builtInStreamers.find((streamer) =>
+			streamer.internalKey.toLowerCase() === lower || streamer.displayName.toLowerCase() === lower
+		);
+		if (builtIn) {
+			return { twitchId: builtIn.twitchId, label: builtIn.displayName };
+		}
+		const parsed = parseTwitchUserReference(reference);
+		if (!parsed) {
+			throw new ApiError('not-found', `${reference} is not a streamer name or Twitch ID`);
+		}
+		const user = await this.plugin.resolveTwitchUser(parsed);
+		return { twitchId: user.twitchId, label: user.displayName };
+	}
+}
@@ -1,6 +1,8 @@
 import {
 	App,
 	ButtonComponent,
+	DropdownComponent,
+	normalizePath,
 	Notice,
 	PluginSettingTab,
 	Setting,
@@ -11,10 +13,35 @@ import {
 } from 'obsidian';
 import type SevenTVPlugin from '../index';
 import { SimpleConfirmationModal } from './SimpleConfirmationModal';
+import { AliasImportModal } from './AliasImportModal';
+import { EmoteChoiceModal } from './EmoteChoiceModal';
+import { EmoteSetSuggestModal } from './EmoteSetSuggestModal';
 import { StreamerSuggestModal } from './StreamerSuggestModal';
-import { formatBytes } from './utils';
+import { describeEmoteSource, EMOTE_PROVIDERS, getEmoteProvider, getGlobalSourceLabel } from './providers';
+import { DEFAULT_API_BASE_URL, DEFAULT_CDN_BASE_URL, normalizeBaseUrl } from './endpoints';
+import { describeApiError, describeLoadFailures } from './errors';
+import { mergeAliases, serializeAliases, validateAlias } from './emoteAliases';
+import {
+	DEFAULT_SETTINGS,
+	EmoteAlias,
+	EmoteLoadFailure,
+	EmoteProviderId,
+	EmoteSetSummary,
+	EmoteSize,
+	EmoteSourceConfig,
+	ImageFormat,
+	InsertionFormat,
+	ResolvedEmote
+} from './types';
+import {
+	createSourceId,
+	formatAge,
+	formatBytes,
+	parseEmoteSetReference,
+	parseTwitchUserReference
+} from './utils';
 
-type StatusKey = 'source' | 'emotes' | 'strategy' | 'cache' | 'preCache';
+type StatusKey = 'source' | 'emotes' | 'snapshot' | 'strategy' | 'cache' | 'preCache';
 
 interface StatusRowRef {
 	row: HTMLElement;
@@ -29,8 +56,14 @@ export class SettingsTab extends PluginSettingTab {
 	private preCacheButton: ButtonComponent | null = null;
 	private cancelPreCacheButton: ButtonComponent | null = null;
 	private clearCacheButton: ButtonComponent | null = null;
-	private streamerButton: ButtonComponent | null = null;
+	private sourceListEl: HTMLElement | null = null;
+	private aliasListEl: HTMLElement | null = null;
+	private folderSourceListEl: HTMLElement | null = null;
+	private newAliasInput: TextComponent | null = null;
 	private manualIdInput: TextComponent | null = null;
+	private emoteSetInput: TextComponent | null = null;
+	private resolveStatusEl: HTMLElement | null = null;
+	private newSourceProvider: EmoteProviderId = '7tv';
 	private unsubscribeState: (() => void) | null = null;
 
 	constructor(app: App, private readonly plugin: SevenTVPlugin) {
@@ -44,9 +77,11 @@ export class SettingsTab extends PluginSettingTab {
 
 		this.renderIntro(containerEl);
 		this.renderStreamerSection(containerEl);
+		this.renderFolderSourceSection(containerEl);
 		this.renderCacheSection(containerEl);
 		this.renderStatusSection(containerEl);
 		this.renderEditorSection(containerEl);
+		this.renderAliasSection(containerEl);
 		this.renderAdvancedSection(containerEl);
 		this.subscribeToState();
 
@@ -63,8 +98,13 @@ export class SettingsTab extends PluginSettingTab {
 		this.preCacheButton = null;
 		this.cancelPreCacheButton = null;
 		this.clearCacheButton = null;
-		this.streamerButton = null;
+		this.sourceListEl = null;
+		this.aliasListEl = null;
+		this.folderSourceListEl = null;
+		this.newAliasInput = null;
 		this.manualIdInput = null;
+		this.emoteSetInput = null;
+		this.resolveStatusEl = null;
 		super.hide();
 	}
 
@@ -76,40 +116,253 @@ export class SettingsTab extends PluginSettingTab {
 	}
 
 	private renderStreamerSection(containerEl: HTMLElement): void {
-		new Setting(containerEl).setName('Streamer selection').setHeading();
+		new Setting(containerEl).setName('Emote sources').setHeading();
 
 		const streamerSetting = new Setting(containerEl)
-			.setName('Select streamer')
-			.setDesc('Choose a streamer, or enter a Twitch ID directly.');
+			.setName('Add streamer')
+			.setDesc('Choose an emote provider and a streamer, or enter a Twitch username, ID or channel URL. Each streamer becomes an emote source below.');
+
+		streamerSetting.addDropdown((dropdown) => {
+			this.addProviderOptions(dropdown);
+			dropdown
+				.setValue(this.newSourceProvider)
+				.onChange((value: EmoteProviderId) => {
+					this.newSourceProvider = value;
+				});
+		});
 
 		streamerSetting.addButton((button) => {
-			this.streamerButton = button;
 			button
-				.setButtonText(this.getStreamerButtonText())
+				.setButtonText('Browse streamers...')
 				.onClick(() => this.openStreamerModal());
 			button.buttonEl.addClass('seven-tv-streamer-select-button');
 		});
 
+		streamerSetting.addText((text) => {
+			this.manualIdInput = text;
+			text.setPlaceholder('Twitch username or ID');
+			text.inputEl.addClass('seven-tv-manual-id-input');
+		});
+
 		streamerSetting.addExtraButton((button) => {
-			button.setIcon('cross').setTooltip('Clear selection').onClick(async () => {
-				this.plugin.settings.selectedStreamerId = '';
-				this.plugin.settings.twitchUserId = '';
-				await this.plugin.saveSettings();
-				if (this.manualIdInput) {
-					this.manualIdInput.setValue('');
-				}
-				this.refreshStreamerButtonText();
-				new Notice('Selection cleared');
+			button.setIcon('plus').setTooltip('Add Twitch user').onClick(async () => {
+				await this.handleManualTwitchIdAdd();
 			});
 		});
+		this.resolveStatusEl = streamerSetting.descEl.createDiv({ cls: 'seven-tv-resolve-status seven-tv-hidden' });
 
-		streamerSetting.addText((text) => {
-			this.manualIdInput = text;
-			text.setPlaceholder('Twitch ID');
-			text.setValue(this.plugin.settings.twitchUserId);
-			text.inputEl.addClass('seven-tv-manual-id-input');
-			text.onChange(async (value) => {
-				await this.handleManualTwitchIdChange(value);
+		new Setting(containerEl)
+			.setName('Add emote set')
+			.setDesc('Use a 7TV emote set directly, without a Twitch user. Paste the set ID or its 7tv.app URL.')
+			.addText((text) => {
+				this.emoteSetInput = text;
+				text.setPlaceholder('Emote set ID or URL');
+				text.inputEl.addClass('seven-tv-manual-id-input');
+			})
+			.addExtraButton((button) => {
+				button.setIcon('plus').setTooltip('Add emote set').onClick(async () => {
+					await this.handleEmoteSetAdd();
+				});
+			});
+
+		containerEl.createEl('p', {
+			text: 'Sources higher in the list win when two sets contain an emote with the same name.',
+			cls: 'setting-item-description'
+		});
+		this.sourceListEl = containerEl.createDiv({ cls: 'seven-tv-source-list' });
+		this.renderSourceList();
+
+		new Setting(containerEl)
+			.setName('Include global emotes')
+			.setDesc('Also offer the global emote sets of 7TV and of every other provider your sources use. Channel emotes win when a name exists in both.')
+			.addToggle((toggle) => {
+				toggle
+					.setValue(this.plugin.settings.includeGlobalEmotes)
+					.onChange(async (value) => {
+						this.plugin.settings.includeGlobalEmotes = value;
+						await this.applySourceChanges();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Local emotes folder')
+			.setDesc('Offer the PNG, GIF and WebP images in this vault folder as emotes, named after their file names. They are inserted as embeds of the image itself, or as shortcodes. Leave empty to turn local emotes off.')
+			.addText((text) => {
+				text
+					.setPlaceholder('Emotes')
+					.setValue(this.plugin.settings.localEmoteFolder);
+				// Applied once the field loses focus, so every keystroke does not
+				// rescan the vault.
+				text.inputEl.addEventListener('change', async () => {
+					const value = text.getValue().trim();
+					const folder = value ? normalizePath(value) : '';
+					if (folder && !this.app.vault.getFolderByPath(folder)) {
+						new Notice(`There is no folder called ${folder}`);
+						return;
+					}
+					this.plugin.settings.localEmoteFolder = folder;
+					await this.plugin.saveSettings();
+					this.plugin.reloadLocalEmotes();
+					if (folder) {
+						new Notice(`Loaded ${this.plugin.getLocalEmoteCount()} local emotes from ${folder}`);
+					}
+				});
+			});
+	}
+
+	private renderFolderSourceSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName('Emotes per folder').setHeading();
+		containerEl.createEl('p', {
+			text: 'Notes in a mapped folder are offered that streamer\'s 7TV emotes instead of your emote sources. Local and global emotes stay available. A note can also pick a streamer with 7tv: xqc or a Twitch ID in its frontmatter, which wins over the folder. Enter a streamer from the built-in list, a Twitch username or a Twitch ID. Emotes load the first time a note needs them.',
+			cls: 'setting-item-description'
+		});
+		this.folderSourceListEl = containerEl.createDiv({ cls: 'seven-tv-folder-source-list' });
+		this.renderFolderSourceList();
+		new Setting(containerEl).addButton((button) => {
+			button.setButtonText('Add folder').onClick(async () => {
+				this.plugin.settings.folderEmoteSources.push({ folder: '', streamer: '' });
+				await this.applyFolderSourceChanges();
+			});
+		});
+	}
+
+	private renderFolderSourceList(): void {
+		if (!this.folderSourceListEl) {
+			return;
+		}
+		this.folderSourceListEl.empty();
+
+		const mappings = this.plugin.settings.folderEmoteSources;
+		mappings.forEach((mapping, index) => {
+			const mappingSetting = new Setting(this.folderSourceListEl as HTMLElement);
+			mappingSetting.settingEl.addClass('seven-tv-folder-source-item');
+			// Both fields apply once they lose focus, so half-typed names are
+			// never looked up.
+			mappingSetting.addText((text) => {
+				text.setPlaceholder('Folder').setValue(mapping.folder);
+				text.inputEl.addEventListener('change', async () => {
+					const value = text.getValue().trim();
+					mapping.folder = value ? normalizePath(value) : '';
+					await this.applyFolderSourceChanges();
+				});
+			});
+			mappingSetting.addText((text) => {
+				text.setPlaceholder('Streamer or Twitch ID').setValue(mapping.streamer);
+				text.inputEl.addEventListener('change', async () => {
+					mapping.streamer = text.getValue().trim();
+					await this.applyFolderSourceChanges();
+				});
+			});
+			mappingSetting.addExtraButton((button) => {
+				button.setIcon('trash').setTooltip('Remove folder').onClick(async () => {
+					mappings.splice(index, 1);
+					await this.applyFolderSourceChanges();
+				});
+			});
+		});
+	}
+
+	private async applyFolderSourceChanges(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.clearScopedEmoteSets();
+		this.renderFolderSourceList();
+	}
+
+	private renderSourceList(): void {
+		if (!this.sourceListEl) {
+			return;
+		}
+		this.sourceListEl.empty();
+
+		const sources = this.plugin.settings.emoteSources;
+		if (sources.length === 0) {
+			this.sourceListEl.createDiv({
+				cls: 'seven-tv-source-empty',
+				text: 'No emote sources added yet.'
+			});
+			return;
+		}
+
+		sources.forEach((source, index) => {
+			const loadedCount = this.plugin.getLoadedSetSize(source.id);
+			const countText = loadedCount === null ? 'not loaded' : `${loadedCount} emotes`;
+			const originText = source.kind === 'emote-set'
+				? `Emote set ID: ${source.emoteSetId}`
+				: `Twitch ID: ${source.twitchId} · Set: ${source.emoteSetName || 'active set'}`;
+			const sourceSetting = new Setting(this.sourceListEl as HTMLElement)
+				.setName(source.label)
+				.setDesc(`Priority ${index + 1} · ${originText} · ${countText}`);
+			sourceSetting.settingEl.addClass('seven-tv-source-item');
+			const sourceError = this.plugin.getSourceError(source.id);
+			if (sourceError) {
+				sourceSetting.descEl.createDiv({
+					cls: 'seven-tv-source-error mod-warning',
+					text: `Last refresh failed: ${describeApiError(sourceError)}`
+				});
+			}
+
+			sourceSetting.addDropdown((dropdown) => {
+				this.addProviderOptions(dropdown);
+				dropdown
+					.setValue(source.provider)
+					.setDisabled(source.kind === 'emote-set')
+					.onChange(async (value: EmoteProviderId) => {
+						if (this.plugin.hasSourceForTwitchId(source.twitchId, value)) {
+							new Notice(`${source.label} already has a ${getEmoteProvider(value).displayName} source`);
+							dropdown.setValue(source.provider);
+							return;
+						}
+						source.provider = value;
+						source.emoteSetId = '';
+						source.emoteSetName = '';
+						await this.applySourceChanges();
+					});
+			});
+
+			if (source.kind === 'twitch' && getEmoteProvider(source.provider).listUserEmoteSets) {
+				sourceSetting.addExtraButton((button) => {
+					button.setIcon('layers').setTooltip('Choose emote set').onClick(async () => {
+						await this.openEmoteSetModal(source);
+					});
+				});
+			}
+
+			sourceSetting.addToggle((toggle) => {
+				toggle
+					.setTooltip('Enable source')
+					.setValue(source.enabled)
+					.onChange(async (value) => {
+						source.enabled = value;
+						await this.applySourceChanges();
+					});
+			});
+
+			sourceSetting.addExtraButton((button) => {
+				button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						await this.moveSource(index, -1);
+					});
+			});
+
+			sourceSetting.addExtraButton((button) => {
+				button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === sources.length - 1)
+					.onClick(async () => {
+						await this.moveSource(index, 1);
+					});
+			});
+
+			sourceSetting.addExtraButton((button) => {
+				button.setIcon('trash').setTooltip('Remove source').onClick(async () => {
+					this.plugin.settings.emoteSources.splice(index, 1);
+					await this.applySourceChanges();
+					new Notice(`Removed ${source.label}`);
+				});
 			});
 		});
 	}
@@ -152,7 +405,7 @@ export class SettingsTab extends PluginSettingTab {
 				}
 
 				const emoteCount = this.plugin.getEmoteCount();
-				const estimatedSizeMB = ((emoteCount * 50) / 1024).toFixed(1);
+				const estimatedSizeMB = (this.plugin.estimatePreCacheBytes() / (1024 * 1024)).toFixed(1);
 				const message = `This will download all ${emoteCount} emotes (est. ${estimatedSizeMB}MB).\n\nThis may take a while. Continue?`;
 
 				new SimpleConfirmationModal(this.app, message, async () => {
@@ -204,6 +457,7 @@ Are you sure you want to clear the cache?`;
 
 		this.statusRows.source = this.createStatusRow('Current source');
 		this.statusRows.emotes = this.createStatusRow('Emotes loaded');
+		this.statusRows.snapshot = this.createStatusRow('Offline snapshot');
 		this.statusRows.strategy = this.createStatusRow('Cache strategy');
 		this.statusRows.cache = this.createStatusRow('Cache status');
 		this.statusRows.preCache = this.createStatusRow('Pre-cache');
@@ -213,6 +467,84 @@ Are you sure you want to clear the cache?`;
 
 	private renderEditorSection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName('Editor').setHeading();
+		const triggerSetting = new Setting(containerEl)
+			.setName('Trigger character')
+			.setDesc('Typing this character followed by an emote name opens the suggestions. It does not trigger right after a letter or digit, inside a URL, or in code and frontmatter. Add 7tv-suggestions: false to a note\'s frontmatter to turn suggestions off there.');
+		const triggerWarningEl = triggerSetting.descEl.createDiv({ cls: 'seven-tv-resolve-status mod-warning' });
+		triggerSetting.addText((text) => {
+			text
+				.setPlaceholder(DEFAULT_SETTINGS.triggerCharacter)
+				.setValue(this.plugin.settings.triggerCharacter)
+				.onChange(async (value) => {
+					const trigger = value.trim() || DEFAULT_SETTINGS.triggerCharacter;
+					if (trigger.length !== 1 || /[\w\s]/.test(trigger)) {
+						triggerWarningEl.setText('Enter a single symbol, such as : or ;');
+						return;
+					}
+					triggerWarningEl.setText('');
+					this.plugin.settings.triggerCharacter = trigger;
+					await this.plugin.saveSettings();
+				});
+			text.inputEl.maxLength = 1;
+		});
+		new Setting(containerEl)
+			.setName('Minimum query length')
+			.setDesc('How many characters of the name to type before suggestions appear. A lone trigger character still lists your favorites.')
+			.addSlider((slider) => {
+				slider
+					.setLimits(1, 5, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.minQueryLength)
+					.onChange(async (value) => {
+						this.plugin.settings.minQueryLength = value;
+						await this.plugin.saveSettings();
+					});
+			});
+		new Setting(containerEl)
+			.setName('Insertion format')
+			.setDesc('HTML writes the emote image markup into the note. Shortcode keeps a compact :name: token (or :name~id: when the name alone is ambiguous) and renders it as an emote in Reading view and Live Preview. Embed downloads the emote into the cache folder and links it with ![[...]], so it works like any other attachment.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('html', 'HTML')
+					.addOption('shortcode', 'Shortcode')
+					.addOption('embed', 'Embed (vault file)')
+					.setValue(this.plugin.settings.insertionFormat)
+					.onChange(async (value: InsertionFormat) => {
+						this.plugin.settings.insertionFormat = value;
+						await this.plugin.saveSettings();
+						await this.plugin.ensureCacheInitialized();
+					});
+			});
+		new Setting(containerEl)
+			.setName('Emote size')
+			.setDesc('Default size for inserted emotes, where 1x is about one line tall. Type a size after the closing colon to override it for one emote, e.g. :KEKW:2x. Sharper images are used on high-density screens when the provider has them.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('1', '1x')
+					.addOption('2', '2x')
+					.addOption('3', '3x')
+					.addOption('4', '4x')
+					.setValue(String(this.plugin.settings.emoteSize))
+					.onChange(async (value) => {
+						this.plugin.settings.emoteSize = Number(value) as EmoteSize;
+						await this.plugin.saveSettings();
+					});
+			});
+		new Setting(containerEl)
+			.setName('Image format')
+			.setDesc('The format emotes are downloaded, cached and linked in. WebP is the smallest. AVIF adds a WebP fallback for viewers without AVIF support. GIF and PNG work in static site generators, PDF export and e-mail. GIF falls back to PNG for static emotes; PNG shows a still frame of animated 7TV emotes. FFZ only serves PNG. Applies to newly inserted emotes; run "Repair emote markup in all notes" to update existing HTML emotes.')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('webp', 'WebP')
+					.addOption('avif', 'AVIF (WebP fallback)')
+					.addOption('gif', 'GIF')
+					.addOption('png', 'PNG')
+					.setValue(this.plugin.settings.imageFormat)
+					.onChange(async (value: ImageFormat) => {
+						this.plugin.settings.imageFormat = value;
+						await this.plugin.saveSettings();
+					});
+			});
 		new Setting(containerEl)
 			.setName('Compact emote display in editor')
 			.setDesc('In Live Preview, replace inserted emote HTML with :name: when the cursor lands on it, so emotes act as a single unit you can select and delete in one stroke. Disable this to see the raw HTML when focused.')
@@ -227,6 +559,137 @@ Are you sure you want to clear the cache?`;
 			});
 	}
 
+	private renderAliasSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName('Aliases').setHeading();
+		new Setting(containerEl)
+			.setName('Add alias')
+			.setDesc('Give an emote a name that is easier to remember. Aliases are suggested alongside real names, and choosing one inserts the real emote.')
+			.addText((text) => {
+				this.newAliasInput = text;
+				text.setPlaceholder('Alias, e.g. yay');
+			})
+			.addButton((button) => {
+				button.setButtonText('Choose emote').setCta().onClick(() => {
+					const alias = this.newAliasInput?.getValue().trim() ?? '';
+					const problem = validateAlias(alias, this.plugin.settings.emoteAliases);
+					if (problem) {
+						new Notice(problem);
+						return;
+					}
+					this.openEmoteChoiceModal(async (emote) => {
+						this.plugin.settings.emoteAliases.push({ alias, provider: emote.provider, id: emote.id, emoteName: emote.name });
+						this.newAliasInput?.setValue('');
+						await this.applyAliasChanges();
+						new Notice(`:${alias}: now inserts :${emote.name}:`);
+					});
+				});
+			});
+		new Setting(containerEl)
+			.setName('Import and export')
+			.setDesc('Copy your aliases as JSON to share them or move them to another vault.')
+			.addButton((button) => {
+				button.setButtonText('Export').onClick(async () => {
+					await navigator.clipboard.writeText(serializeAliases(this.plugin.settings.emoteAliases));
+					new Notice(`Copied ${this.plugin.settings.emoteAliases.length} aliases to the clipboard`);
+				});
+			})
+			.addButton((button) => {
+				button.setButtonText('Import').onClick(() => {
+					new AliasImportModal(this.app, async (aliases) => {
+						const { added, replaced } = mergeAliases(this.plugin.settings.emoteAliases, aliases);
+						await this.applyAliasChanges();
+						new Notice(`Imported ${added} new aliases and replaced ${replaced}`);
+					}).open();
+				});
+			});
+		this.aliasListEl = containerEl.createDiv({ cls: 'seven-tv-alias-list' });
+		this.renderAliasList();
+	}
+
+	private renderAliasList(): void {
+		if (!this.aliasListEl) {
+			return;
+		}
+		this.aliasListEl.empty();
+
+		const aliases = this.plugin.settings.emoteAliases;
+		if (aliases.length === 0) {
+			this.aliasListEl.createDiv({
+				cls: 'seven-tv-source-empty',
+				text: 'No aliases added yet.'
+			});
+			return;
+		}
+
+		aliases.forEach((entry, index) => {
+			const aliasSetting = new Setting(this.aliasListEl as HTMLElement)
+				.setName(`:${entry.alias}:`)
+				.setDesc(this.describeAliasTarget(entry));
+			aliasSetting.settingEl.addClass('seven-tv-alias-item');
+
+			aliasSetting.addText((text) => {
+				text.setValue(entry.alias);
+				// Renames apply once the field loses focus, so a half-typed
+				// name never clashes with another alias.
+				text.inputEl.addEventListener('change', async () => {
+					const alias = text.getValue().trim();
+					if (alias === entry.alias) {
+						return;
+					}
+					const problem = validateAlias(alias, aliases, index);
+					if (problem) {
+						new Notice(problem);
+						text.setValue(entry.alias);
+						return;
+					}
+					entry.alias = alias;
+					await this.applyAliasChanges();
+				});
+			});
+
+			aliasSetting.addExtraButton((button) => {
+				button.setIcon('replace').setTooltip('Change emote').onClick(() => {
+					this.openEmoteChoiceModal(async (emote) => {
+						entry.provider = emote.provider;
+						entry.id = emote.id;
+						entry.emoteName = emote.name;
+						await this.applyAliasChanges();
+					});
+				});
+			});
+
+			aliasSetting.addExtraButton((button) => {
+				button.setIcon('trash').setTooltip('Remove alias').onClick(async () => {
+					aliases.splice(index, 1);
+					await this.applyAliasChanges();
+				});
+			});
+		});
+	}
+
+	private describeAliasTarget(entry: EmoteAlias): string {
+		const emote = this.plugin.findEmoteById(entry);
+		if (!emote) {
+			return `Inserts :${entry.emoteName || entry.id}: · not loaded from any source`;
+		}
+		return `Inserts :${emote.name}: · ${describeEmoteSource(emote)}`;
+	}
+
+	private openEmoteChoiceModal(onChoose: (emote: ResolvedEmote) => Promise<void>): void {
+		if (this.plugin.getEmoteMap().size === 0) {
+			new Notice('No emotes loaded. Add an emote source first.');
+			return;
+		}
+		new EmoteChoiceModal(this.app, this.plugin, (emote) => {
+			void onChoose(emote);
+		}).open();
+	}
+
+	private async applyAliasChanges(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.renderAliasList();
+	}
+
 	private renderAdvancedSection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName('Advanced').setHeading();
 		new Setting(containerEl)
@@ -245,6 +708,84 @@ Are you sure you want to clear the cache?`;
 						await this.refreshStatusSection();
 					});
 			});
+
+		this.renderEndpointSetting(
+			containerEl,
+			'7TV API base URL',
+			'Where emote sets, users and search are requested from. Point this at a mirror, caching proxy or local test server.',
+			'apiBaseUrl',
+			DEFAULT_API_BASE_URL
+		);
+		this.renderEndpointSetting(
+			containerEl,
+			'7TV CDN base URL',
+			'Where 7TV emote images are downloaded and linked from. Emotes already inserted into notes keep their old links.',
+			'cdnBaseUrl',
+			DEFAULT_CDN_BASE_URL
+		);
+
+		new Setting(containerEl)
+			.setName('Reload emotes')
+			.setDesc('Fetch every enabled source again, for example after changing the URLs above.')
+			.addButton((button) => {
+				button.setButtonText('Reload').onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const failures = await this.plugin.reloadEmoteSources();
+						this.renderSourceList();
+						await this.refreshStatusSection();
+						if (failures.length > 0) {
+							new Notice(describeLoadFailures(failures), 10000);
+						} else {
+							new Notice(`Reloaded ${this.plugin.getEmoteCount()} emotes`);
+						}
+					} finally {
+						button.setDisabled(false);
+					}
+				});
+			});
+	}
+
+	private renderEndpointSetting(
+		containerEl: HTMLElement,
+		name: string,
+		description: string,
+		key: 'apiBaseUrl' | 'cdnBaseUrl',
+		defaultValue: string
+	): void {
+		const setting = new Setting(containerEl).setName(name).setDesc(description);
+		const warningEl = setting.descEl.createDiv({ cls: 'seven-tv-resolve-status mod-warning' });
+
+		let input: TextComponent | null = null;
+		setting.addText((text) => {
+			input = text;
+			text
+				.setPlaceholder(defaultValue)
+				.setValue(this.plugin.settings[key])
+				.onChange(async (value) => {
+					const normalized = value.trim() ? normalizeBaseUrl(value) : defaultValue;
+					if (!normalized) {
+						warningEl.setText('Enter an absolute http:// or https:// URL.');
+						return;
+					}
+					warningEl.setText('');
+					this.plugin.settings[key] = normalized;
+					this.plugin.applyEndpointSettings();
+					await this.plugin.saveSettings();
+				});
+		});
+		setting.addExtraButton((button) => {
+			button
+				.setIcon('rotate-ccw')
+				.setTooltip('Restore default')
+				.onClick(async () => {
+					warningEl.setText('');
+					input?.setValue(defaultValue);
+					this.plugin.settings[key] = defaultValue;
+					this.plugin.applyEndpointSettings();
+					await this.plugin.saveSettings();
+				});
+		});
 	}
 
 	private createStatusRow(label: string): StatusRowRef {
@@ -264,11 +805,12 @@ Are you sure you want to clear the cache?`;
 
 		await this.updateCacheStats();
 
-		const activeId = this.plugin.getActiveTwitchId();
-		const selectedStreamer = this.plugin.settings.selectedStreamerId;
-		const streamerName = selectedStreamer
-			? this.plugin.getStreamerDisplayMap().get(selectedStreamer)
-			: null;
+		const activeSources = [
+			...this.plugin.getEnabledSources().map((source) =>
+				`${source.label} (${getEmoteProvider(source.provider).displayName})`
+			),
+			...this.plugin.getActiveGlobalProviders().map(getGlobalSourceLabel)
+		];
 		const emoteCount = this.plugin.getEmoteCount();
 		const cacheStrategy = this.plugin.settings.cacheStrategy === 'on-demand' ? 'On-demand' : 'No cache';
 		const preCacheStatus = this.plugin.isPreCacheComplete()
@@ -277,8 +819,12 @@ Are you sure you want to clear the cache?`;
 				? 'In progress'
 				: 'Not started';
 
-		this.setStatusValue('source', streamerName || activeId || 'None selected');
+		this.setStatusValue('source', activeSources.length > 0 ? activeSources.join(', ') : 'None selected');
 		this.setStatusValue('emotes', emoteCount > 0 ? `${emoteCount} emotes` : 'None');
+		const snapshot = this.plugin.getSnapshotInfo();
+		this.setStatusValue('snapshot', snapshot
+			? `${snapshot.setCount} sets saved ${formatAge(snapshot.savedAt)}`
+			: 'Not saved yet');
 		this.setStatusValue('strategy', cacheStrategy);
 		this.setStatusValue('cache', `${this.cacheStats.count} emotes cached (${formatBytes(this.cacheStats.size)})`);
 		this.setStatusValue('preCache', preCacheStatus);
@@ -357,74 +903,176 @@ Are you sure you want to clear the cache?`;
 		return files;
 	}
 
-	private async handleManualTwitchIdChange(value: string): Promise<void> {
-		const twitchId = value.trim();
-		this.plugin.settings.twitchUserId = twitchId;
-
-		if (twitchId && this.plugin.settings.selectedStreamerId) {
-			this.plugin.settings.selectedStreamerId = '';
+	private async handleManualTwitchIdAdd(): Promise<void> {
+		const reference = parseTwitchUserReference(this.manualIdInput?.getValue() ?? '');
+		if (!reference) {
+			this.setResolveStatus('Enter a Twitch username, numeric ID, or a twitch.tv or 7tv.app URL.', true);
+			return;
 		}
 
-		await this.plugin.saveSettings();
-		this.refreshStreamerButtonText();
-
-		if (!/^\d{6,}$/.test(twitchId)) {
+		// BTTV and FFZ key their sets by Twitch ID, so a numeric ID needs no 7TV account.
+		if (reference.type === 'id' && this.newSourceProvider !== '7tv') {
+			const displayName = this.findStreamerName(reference.value) ?? reference.value;
+			this.setResolveStatus(`Using ${displayName} (ID ${reference.value})`, false);
+			await this.addSource(reference.value, displayName);
+			this.manualIdInput?.setValue('');
 			return;
 		}
 
+		this.setResolveStatus('Looking up user on 7TV...', false);
 		try {
-			await this.plugin.refreshEmotesForUser(twitchId);
-			await this.refreshStatusSection();
-			new Notice('Emotes loaded');
+			const user = await this.plugin.resolveTwitchUser(reference);
+			this.setResolveStatus(`Resolved ${user.displayName} (ID ${user.twitchId})`, false);
+			await this.addSource(user.twitchId, user.displayName);
+			this.manualIdInput?.setValue('');
 		} catch (error) {
-			this.plugin.logMessage(`Failed to load emotes: ${error}`, 'verbose');
-			new Notice('Failed to load emotes');
+			this.plugin.logMessage(`Failed to resolve Twitch user: ${error}`, 'verbose');
+			this.setResolveStatus(describeApiError(error), true);
 		}
 	}
 
+	private setResolveStatus(message: string, isError: boolean): void {
+		if (!this.resolveStatusEl) {
+			return;
+		}
+		this.resolveStatusEl.setText(message);
+		this.resolveStatusEl.toggleClass('seven-tv-hidden', false);
+		this.resolveStatusEl.toggleClass('mod-warning', isError);
+	}
+
 	private openStreamerModal(): void {
 		new StreamerSuggestModal(this.app, this.plugin, async (selectedKey) => {
-			const displayName = this.plugin.getStreamerDisplayMap().get(selectedKey);
+			const displayName = this.plugin.getStreamerDisplayMap().get(selectedKey) ?? selectedKey;
 			const twitchId = this.plugin.getStreamerIdMap().get(selectedKey);
 			if (!twitchId) {
 				new Notice('Invalid streamer selection');
 				return;
 			}
 
-			this.plugin.settings.selectedStreamerId = selectedKey;
-			this.plugin.settings.twitchUserId = twitchId;
-			await this.plugin.saveSettings();
+			await this.addSource(twitchId, displayName);
+		}).open();
+	}
+
+	private async addSource(twitchId: string, label: string): Promise<void> {
+		const provider = this.newSourceProvider;
+		if (this.plugin.hasSourceForTwitchId(twitchId, provider)) {
+			new Notice(`${label} is already a ${getEmoteProvider(provider).displayName} emote source`);
+			return;
+		}
 
-			if (this.manualIdInput) {
-				this.manualIdInput.setValue(twitchId);
-			}
-			this.refreshStreamerButtonText();
+		const source: EmoteSourceConfig = {
+			id: createSourceId(),
+			kind: 'twitch',
+			label,
+			provider,
+			twitchId,
+			emoteSetId: '',
+			emoteSetName: '',
+			enabled: true
+		};
+		this.plugin.settings.emoteSources.push(source);
 
-			new Notice(`Fetching ${displayName}'s emotes...`);
-			try {
-				await this.plugin.refreshEmotesForUser(twitchId);
-				await this.refreshStatusSection();
-				new Notice(`${displayName}'s emotes loaded`);
-			} catch (error) {
-				this.plugin.logMessage(`Failed to load emotes: ${error}`, 'verbose');
-				new Notice('Failed to load emotes');
-			}
-		}).open();
+		new Notice(`Fetching ${label}'s emotes...`);
+		const failures = await this.applySourceChanges();
+		if (!failures.some((failure) => failure.sourceId === source.id)) {
+			new Notice(`${label}'s emotes loaded`);
+		}
+	}
+
+	private async handleEmoteSetAdd(): Promise<void> {
+		const emoteSetId = parseEmoteSetReference(this.emoteSetInput?.getValue() ?? '');
+		if (!emoteSetId) {
+			new Notice('Enter a 7TV emote set ID or URL');
+			return;
+		}
+		if (this.plugin.hasSourceForEmoteSet(emoteSetId)) {
+			new Notice('That emote set is already an emote source');
+			return;
+		}
+
+		let setName: string;
+		try {
+			setName = (await this.plugin.fetchEmoteSetSummary(emoteSetId)).name;
+		} catch (error) {
+			this.plugin.logMessage(`Failed to look up emote set: ${error}`, 'verbose');
+			new Notice(`Could not add that emote set: ${describeApiError(error)}`);
+			return;
+		}
+
+		const sourceId = createSourceId();
+		this.plugin.settings.emoteSources.push({
+			id: sourceId,
+			kind: 'emote-set',
+			label: setName,
+			provider: '7tv',
+			twitchId: '',
+			emoteSetId,
+			emoteSetName: setName,
+			enabled: true
+		});
+		this.emoteSetInput?.setValue('');
+
+		new Notice(`Fetching ${setName}...`);
+		const failures = await this.applySourceChanges();
+		if (!failures.some((failure) => failure.sourceId === sourceId)) {
+			new Notice(`${setName} loaded`);
+		}
 	}
 
-	private getStreamerButtonText(): string {
-		const selected = this.plugin.settings.selectedStreamerId;
-		const displayName = selected
-			? this.plugin.getStreamerDisplayMap().get(selected)
-			: null;
-		return displayName || selected || 'Select streamer...';
+	private async openEmoteSetModal(source: EmoteSourceConfig): Promise<void> {
+		let sets: EmoteSetSummary[];
+		try {
+			sets = await this.plugin.listUserEmoteSets(source);
+		} catch (error) {
+			this.plugin.logMessage(`Failed to list emote sets: ${error}`, 'verbose');
+			new Notice(`Could not load ${source.label}'s emote sets: ${describeApiError(error)}`);
+			return;
+		}
+
+		new EmoteSetSuggestModal(this.app, sets, source.emoteSetId, async (set) => {
+			source.emoteSetId = set?.id ?? '';
+			source.emoteSetName = set?.name ?? '';
+			this.plugin.invalidateEmoteSource(source.id);
+			await this.applySourceChanges();
+			new Notice(set ? `Using ${set.name} for ${source.label}` : `${source.label} follows the active set`);
+		}).open();
 	}
 
-	private refreshStreamerButtonText(): void {
-		if (!this.streamerButton) {
+	private async moveSource(index: number, delta: number): Promise<void> {
+		const sources = this.plugin.settings.emoteSources;
+		const target = index + delta;
+		if (target < 0 || target >= sources.length) {
 			return;
 		}
-		this.streamerButton.setButtonText(this.getStreamerButtonText());
+		[sources[index], sources[target]] = [sources[target], sources[index]];
+		await this.applySourceChanges();
+	}
+
+	/**
+	 * Saves, refetches whatever changed and reports any source that failed
+	 * to load. The failures are returned so callers can skip success notices.
+	 */
+	private async applySourceChanges(): Promise<EmoteLoadFailure[]> {
+		await this.plugin.saveSettings();
+		this.renderSourceList();
+		const failures = await this.plugin.syncEmoteSources();
+		this.renderSourceList();
+		await this.refreshStatusSection();
+		if (failures.length > 0) {
+			new Notice(describeLoadFailures(failures), 10000);
+		}
+		return failures;
+	}
+
+	private addProviderOptions(dropdown: DropdownComponent): void {
+		for (const provider of Object.values(EMOTE_PROVIDERS)) {
+			dropdown.addOption(provider.id, provider.displayName);
+		}
+	}
+
+	private findStreamerName(twitchId: string): string | null {
+		const streamer = this.plugin.settings.builtInStreamers.find((s) => s.twitchId === twitchId);
+		return streamer?.displayName ?? null;
 	}
 
 	private subscribeToState(): void {
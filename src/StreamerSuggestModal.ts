@@ -43,10 +43,10 @@ export class StreamerSuggestModal extends FuzzySuggestModal<string> {
 			text: `Twitch ID: ${twitchId}`
 		});
 
-		if (this.plugin.settings.selectedStreamerId === item) {
+		if (this.plugin.hasSourceForTwitchId(twitchId)) {
 			container.createDiv({
 				cls: 'seven-tv-streamer-selected-indicator',
-				text: '✓ Selected'
+				text: '✓ Added'
 			});
 		}
 	}
@@ -1,71 +1,631 @@
-import { requestUrl } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { buildApiUrl } from './endpoints';
+import { ApiError, isApiError } from './errors';
 import { PluginLogger } from './logger';
+import { EmoteRecord, EmoteSetSummary, FetchedEmoteSet, ResolvedTwitchUser } from './types';
+import { createEmoteRecord, TwitchUserReference } from './utils';
 
 const REQUEST_TIMEOUT_MS = 6000;
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+const GLOBAL_EMOTE_SET_ID = 'global';
+const SEVENTV_ZERO_WIDTH_FLAG = 1 << 0;
+const SEVENTV_EMOTE_ZERO_WIDTH_FLAG = 1 << 8;
+
+// Response shapes list only the fields this plugin reads. Every field is
+// optional because the services omit them freely.
+interface SevenTVFileData {
+	name?: string;
+	width?: number;
+	height?: number;
+}
+
+interface SevenTVEmoteData {
+	name?: string;
+	flags?: number;
+	animated?: boolean;
+	tags?: unknown[];
+	owner?: { username?: string; display_name?: string };
+	host?: { files?: SevenTVFileData[] };
+}
+
+// A search result: the emote itself, with its ID alongside.
+interface SevenTVSearchEmoteData extends SevenTVEmoteData {
+	id?: string;
+}
+
+interface SevenTVSearchData {
+	data?: { emotes?: { count?: number; items?: (SevenTVSearchEmoteData | null)[] } };
+}
+
+// An emote as listed in a set: the name and flags it has in that set, with
+// the emote itself under `data`.
+interface SevenTVSetEmoteData {
+	id?: string;
+	name?: string;
+	flags?: number;
+	data?: SevenTVEmoteData;
+}
+
+interface SevenTVEmoteSetData {
+	id?: string;
+	name?: string;
+	emote_count?: number;
+	emotes?: SevenTVSetEmoteData[];
+}
+
+// The 7TV account linked to a Twitch user, with the set active on the channel.
+interface SevenTVTwitchUserData {
+	username?: string;
+	display_name?: string;
+	emote_set_id?: string;
+	emote_set?: SevenTVEmoteSetData;
+	emote_sets?: SevenTVEmoteSetData[];
+	user?: { emote_sets?: SevenTVEmoteSetData[] };
+}
+
+interface SevenTVConnectionData {
+	id?: string;
+	platform?: string;
+	username?: string;
+	display_name?: string;
+}
+
+interface SevenTVUserData {
+	connections?: SevenTVConnectionData[];
+}
+
+interface BttvEmoteData {
+	id?: string;
+	code?: string;
+	animated?: boolean;
+	imageType?: string;
+	width?: number;
+	height?: number;
+	user?: { displayName?: string };
+}
+
+interface BttvUserData {
+	id?: string;
+	channelEmotes?: BttvEmoteData[];
+	sharedEmotes?: BttvEmoteData[];
+}
+
+interface FfzEmoteData {
+	id?: number;
+	name?: string;
+	// An object of animated image URLs when the emote is animated.
+	animated?: unknown;
+	width?: number;
+	height?: number;
+	owner?: { display_name?: string };
+}
+
+interface FfzSetData {
+	emoticons?: FfzEmoteData[];
+}
+
+interface FfzRoomData {
+	room?: { set?: number };
+	sets?: Record<string, FfzSetData>;
+}
+
+interface FfzGlobalData {
+	default_sets?: number[];
+	sets?: Record<string, FfzSetData>;
+}
 
 export async function fetchEmotesForTwitchId(
 	twitchId: string,
+	logger: PluginLogger,
+	preferredSetId?: string
+): Promise<FetchedEmoteSet> {
+	if (preferredSetId) {
+		return fetchSevenTVEmoteSet(preferredSetId, logger);
+	}
+
+	logger.log(`Fetching 7TV emotes for Twitch ID: ${twitchId}`, 'debug');
+
+	const userData = await withNotFoundMessage(
+		fetchJsonWithTimeout(buildApiUrl('7tv', 'users', 'twitch', twitchId), REQUEST_TIMEOUT_MS),
+		'No 7TV account is linked to this Twitch user'
+	) as SevenTVTwitchUserData | null;
+
+	const emoteSetId = userData?.emote_set?.id ||
+		(userData?.emote_sets && userData.emote_sets[0]?.id);
+	if (!emoteSetId) {
+		throw new ApiError('not-found', 'This 7TV user has no active emote set');
+	}
+
+	logger.log(`Found emote set ID: ${emoteSetId}`, 'debug');
+	const result: FetchedEmoteSet = { setId: emoteSetId, emotes: new Map() };
+	await fetchEmoteSetInto(emoteSetId, result.emotes, logger);
+	return result;
+}
+
+export async function fetchSevenTVEmoteSet(
+	emoteSetId: string,
 	logger: PluginLogger
-): Promise<Map<string, string>> {
-	const emoteMap = new Map<string, string>();
+): Promise<FetchedEmoteSet> {
+	logger.log(`Fetching 7TV emote set ${emoteSetId}`, 'debug');
+	const result: FetchedEmoteSet = { setId: emoteSetId, emotes: new Map() };
+	await fetchEmoteSetInto(emoteSetId, result.emotes, logger);
+	return result;
+}
 
-	try {
-		logger.log(`Fetching 7TV emotes for Twitch ID: ${twitchId}`, 'debug');
+/**
+ * Lists every emote set owned by the 7TV user linked to a Twitch account,
+ * with the set that is active on the channel first.
+ */
+export async function fetchSevenTVUserEmoteSets(
+	twitchId: string,
+	logger: PluginLogger
+): Promise<EmoteSetSummary[]> {
+	logger.log(`Fetching 7TV emote sets for Twitch ID: ${twitchId}`, 'debug');
 
-		const userData = await fetchJsonWithTimeout(
-			`https://7tv.io/v3/users/twitch/${encodeURIComponent(twitchId)}`,
-			REQUEST_TIMEOUT_MS
-		);
+	const userData = await withNotFoundMessage(
+		fetchJsonWithTimeout(buildApiUrl('7tv', 'users', 'twitch', twitchId), REQUEST_TIMEOUT_MS),
+		'No 7TV account is linked to this Twitch user'
+	) as SevenTVTwitchUserData | null;
+
+	const activeSet = userData?.emote_set;
+	const activeId = activeSet?.id ?? userData?.emote_set_id;
+	const ownedSets = userData?.user?.emote_sets ?? userData?.emote_sets;
+	const rawSets: SevenTVEmoteSetData[] = Array.isArray(ownedSets) ? ownedSets : [];
 
-		const emoteSetId = userData?.emote_set?.id ||
-			(userData?.emote_sets && userData.emote_sets[0]?.id);
-		if (!emoteSetId) {
-			throw new Error('No emote set found');
+	const sets = new Map<string, EmoteSetSummary>();
+	if (activeSet?.id) {
+		sets.set(activeSet.id, toEmoteSetSummary(activeSet.id, activeSet, activeId));
+	}
+	for (const set of rawSets) {
+		if (set?.id && !sets.has(set.id)) {
+			sets.set(set.id, toEmoteSetSummary(set.id, set, activeId));
 		}
+	}
+	return Array.from(sets.values());
+}
+
+export async function fetchSevenTVEmoteSetSummary(
+	emoteSetId: string,
+	logger: PluginLogger
+): Promise<EmoteSetSummary> {
+	logger.log(`Fetching 7TV emote set summary for ${emoteSetId}`, 'debug');
+	const setData = await withNotFoundMessage(
+		fetchJsonWithTimeout(buildApiUrl('7tv', 'emote-sets', emoteSetId), REQUEST_TIMEOUT_MS),
+		'That 7TV emote set does not exist'
+	) as SevenTVEmoteSetData | null;
+	if (!setData?.id) {
+		throw new ApiError('malformed', 'Unexpected emote set response from 7TV');
+	}
+	return toEmoteSetSummary(setData.id, setData, undefined);
+}
 
-		logger.log(`Found emote set ID: ${emoteSetId}`, 'debug');
+export async function fetchSevenTVGlobalEmotes(logger: PluginLogger): Promise<FetchedEmoteSet> {
+	logger.log('Fetching 7TV global emotes', 'debug');
+	const result: FetchedEmoteSet = { setId: GLOBAL_EMOTE_SET_ID, emotes: new Map() };
+	await fetchEmoteSetInto(GLOBAL_EMOTE_SET_ID, result.emotes, logger);
+	return result;
+}
+
+export async function fetchBttvEmotesForTwitchId(
+	twitchId: string,
+	logger: PluginLogger
+): Promise<FetchedEmoteSet> {
+	logger.log(`Fetching BTTV emotes for Twitch ID: ${twitchId}`, 'debug');
 
-		const setData = await fetchJsonWithTimeout(
-			`https://7tv.io/v3/emote-sets/${encodeURIComponent(emoteSetId)}`,
+	const userData = await withNotFoundMessage(
+		fetchJsonWithTimeout(
+			buildApiUrl('bttv', 'cached', 'users', 'twitch', twitchId),
 			REQUEST_TIMEOUT_MS
-		);
+		),
+		'This Twitch user has no BTTV emotes'
+	) as BttvUserData | null;
+	if (!userData || (!Array.isArray(userData.channelEmotes) && !Array.isArray(userData.sharedEmotes))) {
+		throw new ApiError('malformed', 'Unexpected channel response from BTTV');
+	}
+
+	const result: FetchedEmoteSet = { setId: userData.id ? String(userData.id) : null, emotes: new Map() };
+	addBttvEmotes(userData.channelEmotes, result.emotes);
+	addBttvEmotes(userData.sharedEmotes, result.emotes);
+	logger.log(`Mapped ${result.emotes.size} BTTV emotes`, 'debug');
+	return result;
+}
+
+export async function fetchBttvGlobalEmotes(logger: PluginLogger): Promise<FetchedEmoteSet> {
+	logger.log('Fetching BTTV global emotes', 'debug');
+	const globalData = await fetchJsonWithTimeout(
+		buildApiUrl('bttv', 'cached', 'emotes', 'global'),
+		REQUEST_TIMEOUT_MS
+	) as BttvEmoteData[] | null;
+	if (!Array.isArray(globalData)) {
+		throw new ApiError('malformed', 'Unexpected global emote response from BTTV');
+	}
+
+	const result: FetchedEmoteSet = { setId: GLOBAL_EMOTE_SET_ID, emotes: new Map() };
+	addBttvEmotes(globalData, result.emotes);
+	return result;
+}
+
+export async function fetchFfzEmotesForTwitchId(
+	twitchId: string,
+	logger: PluginLogger
+): Promise<FetchedEmoteSet> {
+	logger.log(`Fetching FFZ emotes for Twitch ID: ${twitchId}`, 'debug');
+
+	const roomData = await withNotFoundMessage(
+		fetchJsonWithTimeout(
+			buildApiUrl('ffz', 'room', 'id', twitchId),
+			REQUEST_TIMEOUT_MS
+		),
+		'This Twitch user has no FFZ room'
+	) as FfzRoomData | null;
+
+	const setId = roomData?.room?.set;
+	const set = setId === undefined ? undefined : roomData?.sets?.[setId];
+	if (!set) {
+		throw new ApiError('malformed', 'Unexpected room response from FFZ');
+	}
+
+	const result: FetchedEmoteSet = { setId: String(setId), emotes: new Map() };
+	addFfzEmotes([set], result.emotes);
+	logger.log(`Mapped ${result.emotes.size} FFZ emotes`, 'debug');
+	return result;
+}
+
+export async function fetchFfzGlobalEmotes(logger: PluginLogger): Promise<FetchedEmoteSet> {
+	logger.log('Fetching FFZ global emotes', 'debug');
+	const globalData = await fetchJsonWithTimeout(
+		buildApiUrl('ffz', 'set', 'global'),
+		REQUEST_TIMEOUT_MS
+	) as FfzGlobalData | null;
+	const defaultSets = globalData?.default_sets;
+	if (!Array.isArray(defaultSets)) {
+		throw new ApiError('malformed', 'Unexpected global emote response from FFZ');
+	}
+
+	const result: FetchedEmoteSet = { setId: defaultSets.map(String).join(',') || null, emotes: new Map() };
+	addFfzEmotes(defaultSets.map((setId) => globalData?.sets?.[String(setId)]), result.emotes);
+	return result;
+}
+
+const SEARCH_USERS_QUERY = `query SearchUsers($query: String!) {
+	users(query: $query) {
+		id
+		username
+		display_name
+		connections { id platform username display_name }
+	}
+}`;
 
-		if (Array.isArray(setData?.emotes)) {
-			for (const emote of setData.emotes) {
-				if (emote?.name && emote?.id) {
-					emoteMap.set(emote.name, emote.id);
-				}
+const SEARCH_EMOTES_QUERY = `query SearchEmotes($query: String!, $page: Int, $limit: Int, $filter: EmoteSearchFilter) {
+	emotes(query: $query, page: $page, limit: $limit, filter: $filter) {
+		count
+		items {
+			id
+			name
+			flags
+			animated
+			tags
+			owner { username display_name }
+			host { url files { name width height format } }
+		}
+	}
+}`;
+
+export interface EmoteSearchOptions {
+	query: string;
+	page: number;
+	limit: number;
+	animated: boolean | null;
+}
+
+export interface EmoteSearchResult {
+	total: number;
+	items: EmoteRecord[];
+}
+
+/**
+ * Searches every emote on 7TV, not just the loaded sets. `animated` narrows
+ * the results to animated (true) or static (false) emotes when set.
+ */
+export async function searchSevenTVEmotes(
+	options: EmoteSearchOptions,
+	logger: PluginLogger
+): Promise<EmoteSearchResult> {
+	logger.log(`Searching 7TV emotes for "${options.query}" (page ${options.page})`, 'debug');
+
+	const filter: Record<string, unknown> = {};
+	if (options.animated !== null) {
+		filter.animated = options.animated;
+	}
+
+	const searchData = await fetchGraphQL(SEARCH_EMOTES_QUERY, {
+		query: options.query,
+		page: options.page,
+		limit: options.limit,
+		filter
+	}) as SevenTVSearchData | null;
+
+	const result = searchData?.data?.emotes;
+	const foundItems = result?.items;
+	const items = Array.isArray(foundItems) ? foundItems : [];
+	return {
+		total: typeof result?.count === 'number' ? result.count : items.length,
+		items: items
+			.filter((item): item is SevenTVSearchEmoteData & { id: string; name: string } => !!item?.id && !!item.name)
+			.map((item) => toSevenTVRecord(item.id, item.name, { data: item }))
+	};
+}
+
+/**
+ * Turns a Twitch ID, login name or profile URL into the numeric Twitch ID of
+ * a user with a 7TV account. Throws with a user-facing message otherwise.
+ */
+export async function resolveTwitchUser(
+	reference: TwitchUserReference,
+	logger: PluginLogger
+): Promise<ResolvedTwitchUser> {
+	logger.log(`Resolving Twitch user ${reference.type}: ${reference.value}`, 'debug');
+
+	if (reference.type === 'id') {
+		const userData = await withNotFoundMessage(
+			fetchJsonWithTimeout(
+				buildApiUrl('7tv', 'users', 'twitch', reference.value),
+				REQUEST_TIMEOUT_MS
+			),
+			`No 7TV account is linked to Twitch ID ${reference.value}`
+		) as SevenTVTwitchUserData | null;
+		return {
+			twitchId: reference.value,
+			login: userData?.username ?? reference.value,
+			displayName: userData?.display_name || userData?.username || reference.value
+		};
+	}
+
+	if (reference.type === 'seventv-user') {
+		const userData = await withNotFoundMessage(
+			fetchJsonWithTimeout(buildApiUrl('7tv', 'users', reference.value), REQUEST_TIMEOUT_MS),
+			'That 7TV user does not exist'
+		) as SevenTVUserData | null;
+		const connection = findTwitchConnection(userData?.connections);
+		if (!connection) {
+			throw new ApiError('not-found', 'That 7TV user has no linked Twitch account');
+		}
+		return connection;
+	}
+
+	const searchData = await fetchGraphQL(SEARCH_USERS_QUERY, { query: reference.value }) as
+		{ data?: { users?: SevenTVUserData[] } } | null;
+
+	const login = reference.value.toLowerCase();
+	const foundUsers = searchData?.data?.users;
+	const users: SevenTVUserData[] = Array.isArray(foundUsers) ? foundUsers : [];
+	for (const user of users) {
+		const connection = findTwitchConnection(user?.connections);
+		if (connection && connection.login.toLowerCase() === login) {
+			return connection;
+		}
+	}
+	throw new ApiError('not-found', `No 7TV account found for Twitch user "${reference.value}"`);
+}
+
+function findTwitchConnection(connections: SevenTVConnectionData[] | undefined): ResolvedTwitchUser | null {
+	if (!Array.isArray(connections)) {
+		return null;
+	}
+	const twitch = connections.find((connection) =>
+		typeof connection?.platform === 'string' && connection.platform.toUpperCase() === 'TWITCH'
+	);
+	if (!twitch?.id) {
+		return null;
+	}
+	return {
+		twitchId: String(twitch.id),
+		login: twitch.username ?? '',
+		displayName: twitch.display_name || twitch.username || String(twitch.id)
+	};
+}
+
+function addBttvEmotes(emotes: BttvEmoteData[] | undefined, emoteMap: Map<string, EmoteRecord>): void {
+	if (!Array.isArray(emotes)) {
+		return;
+	}
+	for (const emote of emotes) {
+		if (emote?.code && emote?.id) {
+			emoteMap.set(emote.code, createEmoteRecord('bttv', String(emote.id), emote.code, {
+				animated: emote.animated === true || emote.imageType === 'gif',
+				width: toDimension(emote.width),
+				height: toDimension(emote.height),
+				ownerName: emote.user?.displayName ?? null
+			}));
+		}
+	}
+}
+
+function addFfzEmotes(sets: (FfzSetData | undefined)[], emoteMap: Map<string, EmoteRecord>): void {
+	for (const set of sets) {
+		const emoticons = set?.emoticons;
+		if (!Array.isArray(emoticons)) {
+			continue;
+		}
+		for (const emote of emoticons) {
+			if (emote?.name && emote?.id !== undefined) {
+				emoteMap.set(emote.name, createEmoteRecord('ffz', String(emote.id), emote.name, {
+					animated: !!emote.animated,
+					width: toDimension(emote.width),
+					height: toDimension(emote.height),
+					ownerName: emote.owner?.display_name ?? null
+				}));
 			}
-			logger.log(`Mapped ${emoteMap.size} emotes`, 'debug');
 		}
+	}
+}
+
+function toEmoteSetSummary(id: string, set: SevenTVEmoteSetData, activeId: string | undefined): EmoteSetSummary {
+	const emoteCount = typeof set.emote_count === 'number'
+		? set.emote_count
+		: Array.isArray(set.emotes) ? set.emotes.length : null;
+	return {
+		id,
+		name: set.name || id,
+		emoteCount,
+		isActive: id === activeId
+	};
+}
+
+function toSevenTVRecord(id: string, name: string, emote: SevenTVSetEmoteData): EmoteRecord {
+	const data = emote.data ?? {};
+	const files = data.host?.files;
+	const baseFile = Array.isArray(files)
+		? files.find((file) => file?.name?.startsWith('1x')) ?? files[0]
+		: null;
+	const flags = typeof emote.flags === 'number' ? emote.flags : 0;
+	const dataFlags = typeof data.flags === 'number' ? data.flags : 0;
+
+	return createEmoteRecord('7tv', id, name, {
+		originalName: data.name ?? name,
+		animated: !!data.animated,
+		zeroWidth: (flags & SEVENTV_ZERO_WIDTH_FLAG) !== 0 || (dataFlags & SEVENTV_EMOTE_ZERO_WIDTH_FLAG) !== 0,
+		width: toDimension(baseFile?.width),
+		height: toDimension(baseFile?.height),
+		ownerName: data.owner?.display_name ?? data.owner?.username ?? null,
+		tags: Array.isArray(data.tags) ? data.tags.filter((tag): tag is string => typeof tag === 'string') : []
+	});
+}
+
+function toDimension(value: unknown): number | null {
+	return typeof value === 'number' && value > 0 ? value : null;
+}
+
+async function fetchEmoteSetInto(
+	emoteSetId: string,
+	emoteMap: Map<string, EmoteRecord>,
+	logger: PluginLogger
+): Promise<void> {
+	const setData = await withNotFoundMessage(
+		fetchJsonWithTimeout(buildApiUrl('7tv', 'emote-sets', emoteSetId), REQUEST_TIMEOUT_MS),
+		'That 7TV emote set does not exist'
+	) as SevenTVEmoteSetData | null;
+
+	if (!setData || typeof setData !== 'object') {
+		throw new ApiError('malformed', 'Unexpected emote set response from 7TV');
+	}
+	// 7TV omits the emotes array entirely for empty sets.
+	const emotes: SevenTVSetEmoteData[] = Array.isArray(setData.emotes) ? setData.emotes : [];
+	for (const emote of emotes) {
+		if (emote?.name && emote?.id) {
+			emoteMap.set(emote.name, toSevenTVRecord(emote.id, emote.name, emote));
+		}
+	}
+	logger.log(`Mapped ${emoteMap.size} emotes`, 'debug');
+}
+
+async function withNotFoundMessage<T>(request: Promise<T>, message: string): Promise<T> {
+	try {
+		return await request;
 	} catch (error) {
-		logger.error(`Failed to fetch 7TV emotes: ${error}`);
+		if (isApiError(error, 'not-found')) {
+			throw new ApiError('not-found', message, error.status);
+		}
+		throw error;
 	}
+}
 
-	return emoteMap;
+async function fetchGraphQL(query: string, variables: Record<string, unknown>): Promise<unknown> {
+	const data = await fetchJsonWithTimeout({
+		url: buildApiUrl('7tv', 'gql'),
+		method: 'POST',
+		contentType: 'application/json',
+		body: JSON.stringify({ query, variables })
+	}, REQUEST_TIMEOUT_MS) as { data?: unknown; errors?: ({ message?: string } | null)[] } | null;
+
+	const errors = data?.errors;
+	if (Array.isArray(errors) && errors.length > 0 && !data?.data) {
+		throw new ApiError('malformed', `7TV rejected the query: ${errors[0]?.message ?? 'unknown error'}`);
+	}
+	return data;
 }
 
-async function fetchJsonWithTimeout(url: string, timeoutMs: number): Promise<any> {
+/**
+ * Retries transient failures with exponential backoff (0.5s, 1s, 2s, ...).
+ * A Retry-After header on a 429 response takes precedence over the backoff.
+ */
+async function fetchJsonWithTimeout(request: string | RequestUrlParam, timeoutMs: number): Promise<unknown> {
+	let lastError: ApiError | null = null;
+	for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+		if (lastError) {
+			const backoffMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+			await sleep(Math.min(lastError.retryAfterMs ?? backoffMs, MAX_RETRY_DELAY_MS));
+		}
+		try {
+			return await fetchJsonOnce(request, timeoutMs);
+		} catch (error) {
+			if (!(error instanceof ApiError) || !error.isTransient()) {
+				throw error;
+			}
+			lastError = error;
+		}
+	}
+	throw lastError;
+}
+
+async function fetchJsonOnce(request: string | RequestUrlParam, timeoutMs: number): Promise<unknown> {
+	const params: RequestUrlParam = typeof request === 'string' ? { url: request } : request;
 	let timeoutId: number | null = null;
 	const timeoutPromise = new Promise<never>((_, reject) => {
 		timeoutId = window.setTimeout(
-			() => reject(new Error(`Request timed out after ${timeoutMs}ms`)),
+			() => reject(new ApiError('timeout', `Request timed out after ${timeoutMs / 1000}s`)),
 			timeoutMs
 		);
 	});
 
 	try {
-		const response = await Promise.race([
-			requestUrl({ url, throw: false }),
-			timeoutPromise
-		]);
-		if (response.status < 200 || response.status >= 300) {
-			throw new Error(`HTTP ${response.status}`);
-		}
-		return response.json;
+		let response: RequestUrlResponse;
+		try {
+			response = await Promise.race([
+				requestUrl({ ...params, throw: false }),
+				timeoutPromise
+			]);
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error;
+			}
+			throw new ApiError('network', `Network error: ${error instanceof Error ? error.message : error}`);
+		}
+
+		const status = response.status;
+		if (status === 404) {
+			throw new ApiError('not-found', 'Not found (HTTP 404)', status);
+		}
+		if (status === 429) {
+			throw new ApiError('rate-limited', 'Rate limited by the server. Try again in a minute.', status, parseRetryAfter(response.headers));
+		}
+		if (status >= 400 && status < 500) {
+			throw new ApiError('rejected', `The server rejected the request (HTTP ${status})`, status);
+		}
+		if (status < 200 || status >= 300) {
+			throw new ApiError('network', `Server responded with HTTP ${status}`, status);
+		}
+
+		try {
+			return response.json;
+		} catch {
+			throw new ApiError('malformed', 'The server sent a response that is not valid JSON', status);
+		}
 	} finally {
 		if (timeoutId !== null) {
 			window.clearTimeout(timeoutId);
 		}
 	}
 }
+
+function parseRetryAfter(headers: Record<string, string>): number | null {
+	const value = headers['retry-after'] ?? headers['Retry-After'];
+	const seconds = value ? Number(value) : NaN;
+	return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
@@ -0,0 +1,91 @@
+import { EMOTE_PROVIDERS } from './providers';
+import { EmoteAlias, EmoteOrigin } from './types';
+
+// Aliases are typed after the trigger, so they follow the emote name rules.
+const ALIAS_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Why `alias` cannot be used, or null when it can. `currentIndex` is the
+ * entry being renamed, which may keep its own name.
+ */
+export function validateAlias(alias: string, aliases: EmoteAlias[], currentIndex = -1): string | null {
+	if (!alias) {
+		return 'Enter an alias';
+	}
+	if (!ALIAS_PATTERN.test(alias)) {
+		return 'Aliases can only contain letters, digits and underscores';
+	}
+	if (aliases.some((entry, index) => index !== currentIndex && entry.alias === alias)) {
+		return `:${alias}: is already an alias`;
+	}
+	return null;
+}
+
+export function serializeAliases(aliases: EmoteAlias[]): string {
+	return JSON.stringify(aliases.map(({ alias, provider, id, emoteName }) => ({ alias, provider, id, emoteName })), null, 2);
+}
+
+/**
+ * Reads aliases exported by `serializeAliases`. Throws with a message fit
+ * for a notice when the text is not a list of valid aliases.
+ */
+export function parseAliases(text: string): EmoteAlias[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error('The text is not valid JSON');
+	}
+	if (!Array.isArray(data)) {
+		throw new Error('Expected a list of aliases');
+	}
+	return data.map((entry: unknown, index) => {
+		const alias = parseAlias(entry);
+		if (!alias) {
+			throw new Error(`Entry ${index + 1} is not a valid alias`);
+		}
+		return alias;
+	});
+}
+
+/**
+ * Adds `incoming` to `existing` in place. An imported alias replaces an
+ * existing one with the same name.
+ */
+export function mergeAliases(existing: EmoteAlias[], incoming: EmoteAlias[]): { added: number; replaced: number } {
+	let added = 0;
+	let replaced = 0;
+	for (const alias of incoming) {
+		const index = existing.findIndex((entry) => entry.alias === alias.alias);
+		if (index === -1) {
+			existing.push(alias);
+			added++;
+		} else {
+			existing[index] = alias;
+			replaced++;
+		}
+	}
+	return { added, replaced };
+}
+
+function parseAlias(entry: unknown): EmoteAlias | null {
+	if (typeof entry !== 'object' || entry === null) {
+		return null;
+	}
+	const { alias, provider, id, emoteName } = entry as Record<string, unknown>;
+	if (typeof alias !== 'string' || !ALIAS_PATTERN.test(alias)) {
+		return null;
+	}
+	if (typeof provider !== 'string' || !(provider === 'local' || provider in EMOTE_PROVIDERS)) {
+		return null;
+	}
+	if (typeof id !== 'string' || !id) {
+		return null;
+	}
+	return {
+		alias,
+		provider: provider as EmoteOrigin,
+		id,
+		emoteName: typeof emoteName === 'string' ? emoteName : ''
+	};
+}
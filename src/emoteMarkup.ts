@@ -0,0 +1,370 @@
+import { EmoteProviderId, EmoteRecord, EmoteRef, EmoteSize } from './types';
+import { parseSrcset } from './utils';
+
+/**
+ * Matches one inserted emote: the `<picture>` written by the on-demand cache
+ * strategy or the `<span>` written by the no-cache strategy.
+ */
+const EMOTE_MARKUP_PATTERN = /<(picture|span)\b[^>]*\bclass="seven-tv-emote"[^>]*>[\s\S]*?<\/\1>/g;
+const TITLE_ATTR_PATTERN = /\btitle="([^"]*)"/;
+const ALT_ATTR_PATTERN = /\balt="([^"]*)"/;
+const PROVIDER_ATTR_PATTERN = /\bdata-provider="(7tv|bttv|ffz)"/;
+const SIZE_ATTR_PATTERN = /\bdata-size="([1-4])"/;
+const URL_ATTR_PATTERN = /\b(?:srcset|src|data-cache-path)="([^"]*)"/g;
+const WIDTH_ATTR_PATTERN = /<img\b[^>]*\bwidth="(\d+)"/;
+const HEIGHT_ATTR_PATTERN = /<img\b[^>]*\bheight="(\d+)"/;
+// Cache files are `<id>.webp`, `bttv-<id>.webp` or `ffz-<id>.png`, with an
+// `@2x`-style suffix above 1x, possibly behind an app:// URL with a
+// cache-busting query from older versions.
+const CACHE_FILE_PATTERN = /_7tv-emotes-cache\/(?:(bttv|ffz)-)?([^/?#"@]+?)(?:@([1-4])x)?\.[a-z0-9]+(?:[?#]|$)/i;
+// CDN images end in `<id>/<size>`, e.g. `/emote/<id>/1x.webp` or `/emote/<id>/1`.
+const CDN_URL_PATTERN = /^https?:\/\/([^/]+)\/.*?([^/?#]+)\/[^/?#]+(?:[?#].*)?$/i;
+// `:name:` resolves by name through the loaded sets; `:name~<id>:` pins one
+// emote. BTTV and FFZ IDs carry a provider prefix, e.g. `:name~bttv-<id>:`.
+// A trailing `2x` to `4x` sets the size, e.g. `:name:2x`.
+const SHORTCODE_PATTERN = /:([A-Za-z0-9_]+)(?:~((?:bttv-|ffz-)?[A-Za-z0-9]+))?:(?:([1-4])x(?![A-Za-z0-9_]))?/g;
+const PINNED_ID_PATTERN = /^(?:(bttv|ffz)-)?(.+)$/;
+const EMBED_HEIGHT = 28;
+const EMBED_PATTERN = /!\[\[([^\]|]*_7tv-emotes-cache\/[^\]|]+)(?:\|[^\]]*)?\]\]/g;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+export type EmoteMarkupFormat = 'picture' | 'span' | 'embed' | 'shortcode';
+
+export const EMOTE_MARKUP_FORMATS: Record<EmoteMarkupFormat, string> = {
+	picture: 'HTML with cache (<picture>)',
+	span: 'HTML without cache (<span>)',
+	embed: 'Embed (![[...]])',
+	shortcode: 'Shortcode (:name:)'
+};
+
+export interface EmoteMarkupMatch {
+	from: number;
+	to: number;
+	html: string;
+	name: string;
+}
+
+export interface ParsedEmoteMarkup {
+	format: EmoteMarkupFormat;
+	// Null for embeds, which only reference the cached file.
+	name: string | null;
+	// Null for a plain `:name:` shortcode, which only names the emote.
+	ref: EmoteRef | null;
+	// At 1x, regardless of the size the emote is shown at.
+	width: number | null;
+	height: number | null;
+	size: EmoteSize;
+}
+
+export interface EmoteShortcodeMatch {
+	from: number;
+	to: number;
+	name: string;
+	// Set when the shortcode pins a specific emote.
+	ref: EmoteRef | null;
+	size: EmoteSize;
+}
+
+export interface MarkupRewriteResult {
+	text: string;
+	changed: number;
+	skipped: number;
+}
+
+/**
+ * Finds every emote in `text`. Positions are offset by `offset` so callers
+ * can scan a slice of a larger document.
+ */
+export function findEmoteMarkup(text: string, offset = 0): EmoteMarkupMatch[] {
+	const matches: EmoteMarkupMatch[] = [];
+	EMOTE_MARKUP_PATTERN.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = EMOTE_MARKUP_PATTERN.exec(text)) !== null) {
+		const html = match[0];
+		const from = offset + match.index;
+		matches.push({ from, to: from + html.length, html, name: extractEmoteName(html) });
+	}
+	return matches;
+}
+
+export function extractEmoteName(html: string): string {
+	for (const pattern of [TITLE_ATTR_PATTERN, ALT_ATTR_PATTERN]) {
+		const attrMatch = html.match(pattern);
+		if (attrMatch) {
+			const stripped = decodeHtmlAttribute(attrMatch[1]).replace(/^:|:$/g, '');
+			if (stripped.length > 0) {
+				return stripped;
+			}
+		}
+	}
+	return 'emote';
+}
+
+/**
+ * Recovers the emote behind a piece of inserted markup from its cache path
+ * or CDN URL. Returns null when no emote ID can be found.
+ */
+export function parseEmoteMarkup(html: string): ParsedEmoteMarkup | null {
+	const format: EmoteMarkupFormat = html.startsWith('<picture') ? 'picture' : 'span';
+	const declaredProvider = html.match(PROVIDER_ATTR_PATTERN)?.[1] as EmoteProviderId | undefined;
+	const urls = collectUrlAttributes(html);
+
+	let ref: EmoteRef | null = null;
+	for (const url of urls) {
+		const cacheMatch = url.match(CACHE_FILE_PATTERN);
+		if (cacheMatch) {
+			ref = { id: cacheMatch[2], provider: (cacheMatch[1]?.toLowerCase() as EmoteProviderId | undefined) ?? '7tv' };
+			break;
+		}
+	}
+	if (!ref) {
+		for (const url of urls) {
+			const cdnMatch = url.match(CDN_URL_PATTERN);
+			if (cdnMatch) {
+				ref = { id: cdnMatch[2], provider: getProviderForHost(cdnMatch[1]) };
+				break;
+			}
+		}
+	}
+	if (!ref) {
+		return null;
+	}
+
+	const size = toEmoteSize(html.match(SIZE_ATTR_PATTERN)?.[1]);
+	return {
+		format,
+		name: extractEmoteName(html),
+		ref: { id: ref.id, provider: declaredProvider ?? ref.provider },
+		width: toDimension(html.match(WIDTH_ATTR_PATTERN)?.[1], size),
+		height: toDimension(html.match(HEIGHT_ATTR_PATTERN)?.[1], size),
+		size
+	};
+}
+
+export function findEmoteShortcodes(text: string, offset = 0): EmoteShortcodeMatch[] {
+	const matches: EmoteShortcodeMatch[] = [];
+	SHORTCODE_PATTERN.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = SHORTCODE_PATTERN.exec(text)) !== null) {
+		const from = offset + match.index;
+		matches.push({
+			from,
+			to: from + match[0].length,
+			name: match[1],
+			ref: match[2] ? parsePinnedId(match[2]) : null,
+			size: toEmoteSize(match[3])
+		});
+	}
+	return matches;
+}
+
+/**
+ * An Obsidian embed of the cached file. At 1x the width keeps the emote
+ * about one line tall, widening it for emotes that are not square.
+ */
+export function formatEmoteEmbed(emote: EmoteRecord, cachePath: string, size: EmoteSize = 1): string {
+	const height = EMBED_HEIGHT * size;
+	const width = emote.width && emote.height
+		? Math.round(height * emote.width / emote.height)
+		: height;
+	return `![[${cachePath}|${width}]]`;
+}
+
+export function formatEmoteShortcode(emote: EmoteRecord, pinned: boolean, size: EmoteSize = 1): string {
+	const suffix = size === 1 ? '' : `${size}x`;
+	if (!pinned) {
+		return `:${emote.name}:${suffix}`;
+	}
+	const prefix = emote.provider === '7tv' ? '' : `${emote.provider}-`;
+	return `:${emote.name}~${prefix}${emote.id}:${suffix}`;
+}
+
+/**
+ * Replaces every emote of the given formats in `text` with whatever
+ * `rewrite` returns. Emotes that cannot be identified, or for which
+ * `rewrite` returns null, are left alone and counted as skipped. Shortcodes
+ * in code blocks, inline code and frontmatter are not touched.
+ */
+export function rewriteEmoteMarkup(
+	text: string,
+	rewrite: (emote: ParsedEmoteMarkup, source: string) => string | null,
+	formats: EmoteMarkupFormat[] = ['picture', 'span']
+): MarkupRewriteResult {
+	let changed = 0;
+	let skipped = 0;
+	let result = '';
+	let lastIndex = 0;
+	for (const occurrence of findEmoteOccurrences(text, formats)) {
+		const source = text.slice(occurrence.from, occurrence.to);
+		const replacement = occurrence.parsed ? rewrite(occurrence.parsed, source) : null;
+		if (replacement === null) {
+			skipped++;
+			continue;
+		}
+		if (replacement !== source) {
+			changed++;
+			result += text.slice(lastIndex, occurrence.from) + replacement;
+			lastIndex = occurrence.to;
+		}
+	}
+	return { text: result + text.slice(lastIndex), changed, skipped };
+}
+
+interface EmoteOccurrence {
+	from: number;
+	to: number;
+	parsed: ParsedEmoteMarkup | null;
+}
+
+function findEmoteOccurrences(text: string, formats: EmoteMarkupFormat[]): EmoteOccurrence[] {
+	const occurrences: EmoteOccurrence[] = [];
+	const htmlMatches = findEmoteMarkup(text);
+	for (const match of htmlMatches) {
+		const parsed = parseEmoteMarkup(match.html);
+		const format: EmoteMarkupFormat = match.html.startsWith('<picture') ? 'picture' : 'span';
+		if (formats.includes(format)) {
+			occurrences.push({ from: match.from, to: match.to, parsed });
+		}
+	}
+
+	if (formats.includes('embed')) {
+		EMBED_PATTERN.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = EMBED_PATTERN.exec(text)) !== null) {
+			const fileMatch = match[1].match(CACHE_FILE_PATTERN);
+			occurrences.push({
+				from: match.index,
+				to: match.index + match[0].length,
+				parsed: fileMatch
+					? {
+						format: 'embed',
+						name: null,
+						ref: { id: fileMatch[2], provider: (fileMatch[1]?.toLowerCase() as EmoteProviderId | undefined) ?? '7tv' },
+						width: null,
+						height: null,
+						// Embeds link the file for their size, so its resolution stands in.
+						size: toEmoteSize(fileMatch[3])
+					}
+					: null
+			});
+		}
+	}
+
+	if (formats.includes('shortcode')) {
+		const verbatim = findVerbatimRanges(text);
+		for (const match of findEmoteShortcodes(text)) {
+			// Emote HTML carries `:name:` in its title and alt attributes.
+			const overlaps = (range: { from: number; to: number }) => match.from < range.to && match.to > range.from;
+			if (htmlMatches.some(overlaps) || verbatim.some(overlaps)) {
+				continue;
+			}
+			occurrences.push({
+				from: match.from,
+				to: match.to,
+				parsed: { format: 'shortcode', name: match.name, ref: match.ref, width: null, height: null, size: match.size }
+			});
+		}
+	}
+
+	return occurrences.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Ranges of frontmatter, fenced code blocks and inline code spans.
+ */
+function findVerbatimRanges(text: string): { from: number; to: number }[] {
+	const ranges: { from: number; to: number }[] = [];
+	const lines = text.split('\n');
+	let offset = 0;
+	let blockStart: number | null = null;
+	let fence: string | null = null;
+	let inFrontmatter = lines[0]?.trim() === '---';
+	if (inFrontmatter) {
+		blockStart = 0;
+	}
+
+	lines.forEach((line, index) => {
+		const lineEnd = offset + line.length;
+		if (inFrontmatter) {
+			if (index > 0 && line.trim() === '---') {
+				ranges.push({ from: blockStart ?? 0, to: lineEnd });
+				inFrontmatter = false;
+				blockStart = null;
+			}
+		} else if (fence) {
+			const fenceMatch = line.match(FENCE_PATTERN);
+			if (fenceMatch && fenceMatch[1].startsWith(fence)) {
+				ranges.push({ from: blockStart ?? offset, to: lineEnd });
+				fence = null;
+				blockStart = null;
+			}
+		} else {
+			const fenceMatch = line.match(FENCE_PATTERN);
+			if (fenceMatch) {
+				fence = fenceMatch[1];
+				blockStart = offset;
+			} else {
+				const inlineCode = /(`+)[^`]*?\1/g;
+				let match: RegExpExecArray | null;
+				while ((match = inlineCode.exec(line)) !== null) {
+					ranges.push({ from: offset + match.index, to: offset + match.index + match[0].length });
+				}
+			}
+		}
+		offset = lineEnd + 1;
+	});
+
+	if (blockStart !== null) {
+		ranges.push({ from: blockStart, to: text.length });
+	}
+	return ranges;
+}
+
+function parsePinnedId(value: string): EmoteRef {
+	const match = value.match(PINNED_ID_PATTERN);
+	return {
+		id: match?.[2] ?? value,
+		provider: (match?.[1] as EmoteProviderId | undefined) ?? '7tv'
+	};
+}
+
+function collectUrlAttributes(html: string): string[] {
+	const urls: string[] = [];
+	URL_ATTR_PATTERN.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = URL_ATTR_PATTERN.exec(html)) !== null) {
+		for (const candidate of parseSrcset(decodeHtmlAttribute(match[1]))) {
+			urls.push(candidate.url);
+		}
+	}
+	return urls;
+}
+
+function getProviderForHost(host: string): EmoteProviderId {
+	if (host.includes('betterttv')) {
+		return 'bttv';
+	}
+	if (host.includes('frankerfacez')) {
+		return 'ffz';
+	}
+	return '7tv';
+}
+
+function toDimension(value: string | undefined, size: EmoteSize): number | null {
+	const parsed = value ? Number(value) / size : NaN;
+	return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+}
+
+function toEmoteSize(value: string | undefined): EmoteSize {
+	const parsed = Number(value);
+	return parsed === 2 || parsed === 3 || parsed === 4 ? parsed : 1;
+}
+
+function decodeHtmlAttribute(value: string): string {
+	return value
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&');
+}
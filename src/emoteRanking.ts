@@ -0,0 +1,179 @@
+import { EmoteRef, EmoteUsage, ResolvedEmote } from './types';
+import { getEmoteKey } from './utils';
+
+const EXACT_SCORE = 1000;
+const EXACT_IGNORE_CASE_SCORE = 950;
+const PREFIX_SCORE = 800;
+const PREFIX_IGNORE_CASE_SCORE = 700;
+const WORD_START_SCORE = 550;
+const SUBSTRING_SCORE = 400;
+const FUZZY_SCORE = 100;
+const MAX_FUZZY_BONUS = 200;
+const MAX_LENGTH_PENALTY = 50;
+// Usage can lift an emote past others in its tier, and a heavily used fuzzy
+// match past a rarely used substring match.
+const MAX_FREQUENCY_BOOST = 150;
+const MAX_RECENCY_BOOST = 100;
+const RECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// Larger than any match score plus usage, so typing a full name always puts
+// that emote above partial matches, however often those are used.
+const EXACT_MATCH_BOOST = 1000;
+// Larger than any other score, so a matching favorite always comes first.
+const FAVORITE_BOOST = 10000;
+
+/**
+ * Something to match a query against: an emote under its own name, or
+ * under an alias the user gave it.
+ */
+export interface EmoteCandidate {
+	emote: ResolvedEmote;
+	alias: string | null;
+}
+
+export interface RankingSignals {
+	usage: EmoteUsage[];
+	favorites: EmoteRef[];
+}
+
+/**
+ * Scores how well `name` matches `query`: exact matches beat prefixes,
+ * prefixes beat matches at a word boundary (`_`, a capital or a digit),
+ * which beat other substrings and finally loose in-order matches such as
+ * `pg` for `PogChamp`. Returns null when the letters do not appear in order.
+ */
+export function scoreEmoteName(name: string, query: string): number | null {
+	const lowerName = name.toLowerCase();
+	const lowerQuery = query.toLowerCase();
+	const lengthPenalty = Math.min(MAX_LENGTH_PENALTY, name.length - query.length);
+
+	let score: number | null;
+	if (name === query) {
+		score = EXACT_SCORE;
+	} else if (lowerName === lowerQuery) {
+		score = EXACT_IGNORE_CASE_SCORE;
+	} else if (name.startsWith(query)) {
+		score = PREFIX_SCORE;
+	} else if (lowerName.startsWith(lowerQuery)) {
+		score = PREFIX_IGNORE_CASE_SCORE;
+	} else if (findWordStartMatch(name, lowerName, lowerQuery)) {
+		score = WORD_START_SCORE + (name.includes(query) ? 25 : 0);
+	} else if (lowerName.includes(lowerQuery)) {
+		score = SUBSTRING_SCORE;
+	} else {
+		const bonus = scoreSubsequence(name, lowerName, lowerQuery);
+		score = bonus === null ? null : FUZZY_SCORE + Math.min(MAX_FUZZY_BONUS, bonus);
+	}
+	return score === null ? null : score - Math.max(0, lengthPenalty);
+}
+
+/**
+ * Extra score for emotes used often and lately. Frequency grows with the
+ * log of the count and recency halves every week.
+ */
+export function getUsageBoost(usage: EmoteUsage | undefined, now: number): number {
+	if (!usage) {
+		return 0;
+	}
+	const frequency = Math.min(MAX_FREQUENCY_BOOST, 30 * Math.log2(1 + usage.count));
+	const age = Math.max(0, now - usage.lastUsedAt);
+	const recency = MAX_RECENCY_BOOST * Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+	return frequency + recency;
+}
+
+/**
+ * The best `limit` candidates for `query`: matching favorites first, then
+ * exact name matches, then by match quality plus usage. Ties go to the
+ * shorter name, then alphabetical order. An emote that matches under
+ * several names is listed once, under the best one.
+ */
+export function rankEmotes(
+	candidates: Iterable<EmoteCandidate>,
+	query: string,
+	signals: RankingSignals,
+	limit: number
+): EmoteCandidate[] {
+	const usageByKey = new Map(signals.usage.map((entry) => [getEmoteKey(entry), entry]));
+	const favoriteKeys = new Set(signals.favorites.map(getEmoteKey));
+	const now = Date.now();
+	const best = new Map<string, { candidate: EmoteCandidate; name: string; score: number }>();
+	for (const candidate of candidates) {
+		const name = candidate.alias ?? candidate.emote.name;
+		const matchScore = scoreEmoteName(name, query);
+		if (matchScore === null) {
+			continue;
+		}
+		const key = getEmoteKey(candidate.emote);
+		const exactBoost = matchScore >= EXACT_IGNORE_CASE_SCORE ? EXACT_MATCH_BOOST : 0;
+		const favoriteBoost = favoriteKeys.has(key) ? FAVORITE_BOOST : 0;
+		const score = matchScore + getUsageBoost(usageByKey.get(key), now) + exactBoost + favoriteBoost;
+		const previous = best.get(key);
+		if (!previous || score > previous.score) {
+			best.set(key, { candidate, name, score });
+		}
+	}
+	return Array.from(best.values())
+		.sort((a, b) => b.score - a.score ||
+			a.name.length - b.name.length ||
+			a.name.localeCompare(b.name))
+		.slice(0, limit)
+		.map(({ candidate }) => candidate);
+}
+
+function findWordStartMatch(name: string, lowerName: string, lowerQuery: string): boolean {
+	let index = lowerName.indexOf(lowerQuery);
+	while (index !== -1) {
+		if (isWordStart(name, index)) {
+			return true;
+		}
+		index = lowerName.indexOf(lowerQuery, index + 1);
+	}
+	return false;
+}
+
+/**
+ * Bonus for an in-order match, favouring letters that follow each other or
+ * start a word. Null when some letter of the query is missing.
+ */
+function scoreSubsequence(name: string, lowerName: string, lowerQuery: string): number | null {
+	let bonus = 0;
+	let nameIndex = 0;
+	let previous = -2;
+	for (const char of lowerQuery) {
+		const found = lowerName.indexOf(char, nameIndex);
+		if (found === -1) {
+			return null;
+		}
+		if (found === previous + 1) {
+			bonus += 5;
+		}
+		if (isWordStart(name, found)) {
+			bonus += 10;
+		}
+		previous = found;
+		nameIndex = found + 1;
+	}
+	return bonus;
+}
+
+function isWordStart(name: string, index: number): boolean {
+	if (index === 0) {
+		return true;
+	}
+	const char = name[index];
+	const before = name[index - 1];
+	if (before === '_') {
+		return true;
+	}
+	if (isUpperCase(char) && !isUpperCase(before)) {
+		return true;
+	}
+	return isDigit(char) && !isDigit(before);
+}
+
+function isUpperCase(char: string): boolean {
+	return char !== char.toLowerCase();
+}
+
+function isDigit(char: string): boolean {
+	return char >= '0' && char <= '9';
+}
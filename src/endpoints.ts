@@ -0,0 +1,87 @@
+import { EmoteProviderId } from './types';
+
+export const DEFAULT_API_BASE_URL = 'https://7tv.io/v3';
+export const DEFAULT_CDN_BASE_URL = 'https://cdn.7tv.app/emote';
+
+const BTTV_API_BASE_URL = 'https://api.betterttv.net/3';
+const BTTV_CDN_BASE_URL = 'https://cdn.betterttv.net/emote';
+const FFZ_API_BASE_URL = 'https://api.frankerfacez.com/v1';
+const FFZ_CDN_BASE_URL = 'https://cdn.frankerfacez.com/emote';
+
+export interface EndpointConfig {
+	apiBaseUrl: string;
+	cdnBaseUrl: string;
+}
+
+// Set from settings on load and whenever the URLs are edited.
+let sevenTvEndpoints: EndpointConfig = {
+	apiBaseUrl: DEFAULT_API_BASE_URL,
+	cdnBaseUrl: DEFAULT_CDN_BASE_URL
+};
+
+/**
+ * Points 7TV requests and images at another host, such as a mirror, a
+ * caching proxy or a local test server. Invalid URLs fall back to the
+ * defaults.
+ */
+export function configureEndpoints(config: EndpointConfig): void {
+	sevenTvEndpoints = {
+		apiBaseUrl: normalizeBaseUrl(config.apiBaseUrl) ?? DEFAULT_API_BASE_URL,
+		cdnBaseUrl: normalizeBaseUrl(config.cdnBaseUrl) ?? DEFAULT_CDN_BASE_URL
+	};
+}
+
+/**
+ * Joins URL-encoded path segments onto the service's API base, e.g.
+ * `buildApiUrl('7tv', 'users', 'twitch', id)`.
+ */
+export function buildApiUrl(service: EmoteProviderId, ...segments: string[]): string {
+	return joinUrl(getApiBaseUrl(service), segments);
+}
+
+export function buildCdnUrl(service: EmoteProviderId, ...segments: string[]): string {
+	return joinUrl(getCdnBaseUrl(service), segments);
+}
+
+/**
+ * Returns the URL without trailing slashes, or null when it is not an
+ * absolute http(s) URL.
+ */
+export function normalizeBaseUrl(value: string): string | null {
+	const trimmed = value.trim().replace(/\/+$/, '');
+	if (!trimmed) {
+		return null;
+	}
+	try {
+		const url = new URL(trimmed);
+		return url.protocol === 'http:' || url.protocol === 'https:' ? trimmed : null;
+	} catch {
+		return null;
+	}
+}
+
+function getApiBaseUrl(service: EmoteProviderId): string {
+	switch (service) {
+		case 'bttv':
+			return BTTV_API_BASE_URL;
+		case 'ffz':
+			return FFZ_API_BASE_URL;
+		default:
+			return sevenTvEndpoints.apiBaseUrl;
+	}
+}
+
+function getCdnBaseUrl(service: EmoteProviderId): string {
+	switch (service) {
+		case 'bttv':
+			return BTTV_CDN_BASE_URL;
+		case 'ffz':
+			return FFZ_CDN_BASE_URL;
+		default:
+			return sevenTvEndpoints.cdnBaseUrl;
+	}
+}
+
+function joinUrl(base: string, segments: string[]): string {
+	return [base, ...segments.map(encodeURIComponent)].join('/');
+}
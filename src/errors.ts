@@ -0,0 +1,56 @@
+import { EmoteLoadFailure } from './types';
+
+export type ApiErrorKind = 'not-found' | 'rate-limited' | 'rejected' | 'network' | 'timeout' | 'malformed';
+
+/**
+ * A failed request to an emote service. `message` is written for users and
+ * can be shown in a Notice as-is.
+ */
+export class ApiError extends Error {
+	constructor(
+		readonly kind: ApiErrorKind,
+		message: string,
+		readonly status: number | null = null,
+		readonly retryAfterMs: number | null = null
+	) {
+		super(message);
+		this.name = 'ApiError';
+	}
+
+	/**
+	 * Rate limits, timeouts, dropped connections and server errors are worth
+	 * retrying. Missing resources, rejected requests and bad payloads are not.
+	 */
+	isTransient(): boolean {
+		if (this.kind === 'rate-limited' || this.kind === 'timeout') {
+			return true;
+		}
+		return this.kind === 'network' && (this.status === null || this.status >= 500);
+	}
+}
+
+export function isApiError(error: unknown, kind?: ApiErrorKind): error is ApiError {
+	return error instanceof ApiError && (!kind || error.kind === kind);
+}
+
+export function describeApiError(error: unknown): string {
+	if (error instanceof ApiError) {
+		return error.message;
+	}
+	if (error instanceof Error && error.message) {
+		return error.message;
+	}
+	return 'Unknown error';
+}
+
+/**
+ * One Notice-sized summary of the sources that failed to load, naming each
+ * source with its reason.
+ */
+export function describeLoadFailures(failures: EmoteLoadFailure[]): string {
+	const lines = failures.map((failure) => `${failure.label}: ${describeApiError(failure.error)}`);
+	const heading = failures.length === 1
+		? '7TV Emotes could not load 1 source.'
+		: `7TV Emotes could not load ${failures.length} sources.`;
+	return [heading, ...lines].join('\n');
+}
@@ -0,0 +1,59 @@
+import { StateEffect, StateField } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+
+const addInsertionPoint = StateEffect.define<{ id: number; pos: number }>();
+const removeInsertionPoint = StateEffect.define<number>();
+
+let nextInsertionId = 0;
+
+/**
+ * Places where text will be inserted once something async finishes, such
+ * as a download. Each point follows the edits made in the meantime, and
+ * text typed right at a point stays after what is inserted there. The
+ * field starts empty when the editor switches notes, which drops them.
+ */
+export const insertionPointField = StateField.define<ReadonlyMap<number, number>>({
+	create: () => new Map(),
+	update(points, transaction) {
+		let next = points;
+		if (transaction.docChanged && points.size > 0) {
+			next = new Map(Array.from(points, ([id, pos]) => [id, transaction.changes.mapPos(pos, -1)]));
+		}
+		for (const effect of transaction.effects) {
+			if (effect.is(addInsertionPoint)) {
+				next = new Map(next).set(effect.value.id, effect.value.pos);
+			} else if (effect.is(removeInsertionPoint) && next.has(effect.value)) {
+				const remaining = new Map(next);
+				remaining.delete(effect.value);
+				next = remaining;
+			}
+		}
+		return next;
+	}
+});
+
+export function trackInsertionPoint(view: EditorView, pos: number): number {
+	const id = ++nextInsertionId;
+	view.dispatch({ effects: addInsertionPoint.of({ id, pos }) });
+	return id;
+}
+
+/**
+ * Inserts `text` at a tracked point and stops tracking it. The cursor
+ * follows the text only when it is still at the point. Returns false when
+ * the point is gone because the note was closed or swapped for another.
+ */
+export function insertAtTrackedPoint(view: EditorView, id: number, text: string): boolean {
+	const pos = view.state.field(insertionPointField, false)?.get(id);
+	if (pos === undefined || !view.dom.isConnected) {
+		return false;
+	}
+	const cursor = view.state.selection.main;
+	const isCursorAtPoint = cursor.empty && cursor.head === pos;
+	view.dispatch({
+		changes: { from: pos, insert: text },
+		selection: isCursorAtPoint ? { anchor: pos + text.length } : undefined,
+		effects: removeInsertionPoint.of(id)
+	});
+	return true;
+}
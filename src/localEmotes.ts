@@ -0,0 +1,60 @@
+import { TFile, Vault } from 'obsidian';
+import { EmoteRecord, ImageFormat, LoadedEmoteSet } from './types';
+import { createEmoteRecord } from './utils';
+
+export const LOCAL_SOURCE_ID = 'local';
+export const LOCAL_SOURCE_LABEL = 'Local emotes';
+
+const LOCAL_IMAGE_FORMATS = new Map<string, ImageFormat>([
+	['png', 'png'],
+	['gif', 'gif'],
+	['webp', 'webp']
+]);
+
+/**
+ * Whether `path` is the local emote folder or anything inside it. An empty
+ * folder setting means local emotes are off.
+ */
+export function isInLocalEmoteFolder(path: string, folderPath: string): boolean {
+	return !!folderPath && (path === folderPath || path.startsWith(`${folderPath}/`));
+}
+
+export function getLocalImageFormat(path: string): ImageFormat {
+	const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+	return LOCAL_IMAGE_FORMATS.get(extension) ?? 'png';
+}
+
+/**
+ * Turns the images in a vault folder and its subfolders into an emote set.
+ * Each image is named after its file name, with anything an emote name
+ * cannot contain replaced by `_`, and identified by its vault path. When two
+ * images end up with the same name, the first path alphabetically wins.
+ */
+export function loadLocalEmotes(vault: Vault, folderPath: string): LoadedEmoteSet {
+	const files = vault.getFiles()
+		.filter((file) => isLocalEmoteFile(file, folderPath))
+		.sort((a, b) => a.path.localeCompare(b.path));
+	const emotes = new Map<string, EmoteRecord>();
+	for (const file of files) {
+		const name = file.basename.replace(/[^A-Za-z0-9_]/g, '_');
+		if (!emotes.has(name)) {
+			emotes.set(name, createEmoteRecord('local', file.path, name, {
+				originalName: file.basename,
+				animated: file.extension.toLowerCase() === 'gif'
+			}));
+		}
+	}
+	return {
+		sourceId: LOCAL_SOURCE_ID,
+		label: LOCAL_SOURCE_LABEL,
+		provider: 'local',
+		isGlobal: false,
+		setId: null,
+		fetchedAt: Date.now(),
+		emotes
+	};
+}
+
+function isLocalEmoteFile(file: TFile, folderPath: string): boolean {
+	return isInLocalEmoteFolder(file.path, folderPath) && LOCAL_IMAGE_FORMATS.has(file.extension.toLowerCase());
+}
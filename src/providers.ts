@@ -0,0 +1,171 @@
+import {
+	fetchBttvEmotesForTwitchId,
+	fetchBttvGlobalEmotes,
+	fetchEmotesForTwitchId,
+	fetchFfzEmotesForTwitchId,
+	fetchFfzGlobalEmotes,
+	fetchSevenTVEmoteSet,
+	fetchSevenTVGlobalEmotes,
+	fetchSevenTVUserEmoteSets
+} from './api';
+import { buildCdnUrl } from './endpoints';
+import { PluginLogger } from './logger';
+import {
+	EmoteProviderId,
+	EmoteSetSummary,
+	EmoteSize,
+	FetchedEmoteSet,
+	ImageFormat,
+	ResolvedEmote
+} from './types';
+
+/**
+ * Everything that differs between emote services: where sets are fetched
+ * from, where images live on the CDN, and how cached files are named.
+ */
+export interface EmoteProvider {
+	readonly id: EmoteProviderId;
+	readonly displayName: string;
+	fetchChannelEmotes(twitchId: string, logger: PluginLogger, preferredSetId?: string): Promise<FetchedEmoteSet>;
+	fetchGlobalEmotes(logger: PluginLogger): Promise<FetchedEmoteSet>;
+	// Only providers with user-owned emote sets implement these.
+	fetchEmoteSet?(emoteSetId: string, logger: PluginLogger): Promise<FetchedEmoteSet>;
+	listUserEmoteSets?(twitchId: string, logger: PluginLogger): Promise<EmoteSetSummary[]>;
+	// Resolutions the CDN serves, smallest first.
+	readonly sizes: EmoteSize[];
+	// Image formats the CDN serves, preferred first.
+	readonly formats: { animated: ImageFormat[]; static: ImageFormat[] };
+	buildCdnUrl(emoteId: string, size?: EmoteSize, format?: ImageFormat): string;
+	getCacheFileName(emoteId: string, size?: EmoteSize, format?: ImageFormat): string;
+}
+
+/**
+ * One image in a `srcset`: the resolution to fetch and the pixel density it
+ * covers at the displayed size.
+ */
+export interface EmoteVariant {
+	resolution: EmoteSize;
+	density: number;
+}
+
+export interface EmoteFile extends EmoteVariant {
+	format: ImageFormat;
+	cdnUrl: string;
+	// Vault-relative.
+	cachePath: string;
+}
+
+const sevenTVProvider: EmoteProvider = {
+	id: '7tv',
+	displayName: '7TV',
+	fetchChannelEmotes: fetchEmotesForTwitchId,
+	fetchGlobalEmotes: fetchSevenTVGlobalEmotes,
+	fetchEmoteSet: fetchSevenTVEmoteSet,
+	listUserEmoteSets: fetchSevenTVUserEmoteSets,
+	sizes: [1, 2, 3, 4],
+	formats: { animated: ['webp', 'avif', 'gif', 'png'], static: ['webp', 'avif', 'png'] },
+	buildCdnUrl: (emoteId, size = 1, format = 'webp') => buildCdnUrl('7tv', emoteId, `${size}x.${format}`),
+	// 7TV files keep their bare ID so caches written before providers existed stay valid.
+	getCacheFileName: (emoteId, size = 1, format = 'webp') => `${emoteId}${getResolutionSuffix(size)}.${format}`
+};
+
+const bttvProvider: EmoteProvider = {
+	id: 'bttv',
+	displayName: 'BTTV',
+	fetchChannelEmotes: fetchBttvEmotesForTwitchId,
+	fetchGlobalEmotes: fetchBttvGlobalEmotes,
+	sizes: [1, 2, 3],
+	formats: { animated: ['webp', 'gif'], static: ['webp', 'png'] },
+	// Without an extension BTTV serves the uploaded GIF or PNG.
+	buildCdnUrl: (emoteId, size = 1, format = 'webp') =>
+		buildCdnUrl('bttv', emoteId, format === 'webp' ? `${size}x.webp` : `${size}x`),
+	getCacheFileName: (emoteId, size = 1, format = 'webp') => `bttv-${emoteId}${getResolutionSuffix(size)}.${format}`
+};
+
+const ffzProvider: EmoteProvider = {
+	id: 'ffz',
+	displayName: 'FFZ',
+	fetchChannelEmotes: fetchFfzEmotesForTwitchId,
+	fetchGlobalEmotes: fetchFfzGlobalEmotes,
+	sizes: [1, 2, 4],
+	formats: { animated: ['png'], static: ['png'] },
+	buildCdnUrl: (emoteId, size = 1) => buildCdnUrl('ffz', emoteId, String(size)),
+	getCacheFileName: (emoteId, size = 1) => `ffz-${emoteId}${getResolutionSuffix(size)}.png`
+};
+
+export const EMOTE_PROVIDERS: Record<EmoteProviderId, EmoteProvider> = {
+	'7tv': sevenTVProvider,
+	bttv: bttvProvider,
+	ffz: ffzProvider
+};
+
+export function getEmoteProvider(providerId: EmoteProviderId | undefined): EmoteProvider {
+	return (providerId && EMOTE_PROVIDERS[providerId]) || sevenTVProvider;
+}
+
+/**
+ * The images to offer for an emote displayed at `size`: the best resolution
+ * for a standard screen, plus a sharper one for HiDPI screens when the
+ * provider serves it.
+ */
+export function getEmoteVariants(providerId: EmoteProviderId, size: EmoteSize): EmoteVariant[] {
+	const { sizes } = getEmoteProvider(providerId);
+	const primary = [...sizes].reverse().find((resolution) => resolution <= size) ?? sizes[0];
+	const variants: EmoteVariant[] = [{ resolution: primary, density: primary / size }];
+	const sharper = [...sizes].reverse().find((resolution) => resolution > primary && resolution <= size * 2);
+	if (sharper) {
+		variants.push({ resolution: sharper, density: sharper / size });
+	}
+	return variants;
+}
+
+export const IMAGE_FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+	webp: 'image/webp',
+	avif: 'image/avif',
+	gif: 'image/gif',
+	png: 'image/png'
+};
+
+// What to try, in order, for each preference. GIF and PNG stand in for each
+// other because not every provider serves both for every emote.
+const FORMAT_FALLBACKS: Record<ImageFormat, ImageFormat[]> = {
+	webp: ['webp'],
+	avif: ['avif', 'webp'],
+	gif: ['gif', 'png'],
+	png: ['png', 'gif']
+};
+
+/**
+ * The formats to offer for an emote, best first: the preferred format when
+ * the provider serves it, followed by widely supported fallbacks. Falls back
+ * to the provider's default format when none of them are served.
+ */
+export function getImageFormats(providerId: EmoteProviderId, preferred: ImageFormat, animated: boolean): ImageFormat[] {
+	const { formats } = getEmoteProvider(providerId);
+	const supported = animated ? formats.animated : formats.static;
+	const chain = FORMAT_FALLBACKS[preferred].filter((format) => supported.includes(format));
+	return chain.length > 0 ? chain : [supported[0]];
+}
+
+/**
+ * Where a loaded emote comes from, e.g. `xQc · BTTV`. Global and local sets
+ * already name their origin in the label.
+ */
+export function describeEmoteSource(emote: ResolvedEmote): string {
+	return emote.isGlobal || emote.provider === 'local'
+		? emote.sourceLabel
+		: `${emote.sourceLabel} · ${getEmoteProvider(emote.provider).displayName}`;
+}
+
+export function getGlobalSourceId(providerId: EmoteProviderId): string {
+	return `global:${providerId}`;
+}
+
+export function getGlobalSourceLabel(providerId: EmoteProviderId): string {
+	return `${getEmoteProvider(providerId).displayName} Global`;
+}
+
+// 1x files keep the plain name so caches from before sizes existed stay valid.
+function getResolutionSuffix(size: EmoteSize): string {
+	return size === 1 ? '' : `@${size}x`;
+}
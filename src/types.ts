@@ -1,5 +1,14 @@
+import { DEFAULT_API_BASE_URL, DEFAULT_CDN_BASE_URL } from './endpoints';
+
 export type CacheStrategy = 'on-demand' | 'no-cache';
+export type InsertionFormat = 'html' | 'shortcode' | 'embed';
+export type EmoteSize = 1 | 2 | 3 | 4;
+export type ImageFormat = 'webp' | 'avif' | 'gif' | 'png';
 export type LogLevel = 'none' | 'basic' | 'verbose' | 'debug';
+export type EmoteProviderId = '7tv' | 'bttv' | 'ffz';
+// Local emotes are images in a vault folder rather than from a provider.
+export type EmoteOrigin = EmoteProviderId | 'local';
+export type EmoteSourceKind = 'twitch' | 'emote-set';
 
 export interface StreamerDefinition {
 	displayName: string;
@@ -7,20 +16,148 @@ export interface StreamerDefinition {
 	internalKey: string;
 }
 
+/**
+ * A `twitch` source follows a Twitch user's emotes, using their active set
+ * unless `emoteSetId` picks another one. An `emote-set` source points at a
+ * 7TV emote set directly and leaves `twitchId` empty.
+ */
+export interface EmoteSourceConfig {
+	id: string;
+	kind: EmoteSourceKind;
+	label: string;
+	provider: EmoteProviderId;
+	twitchId: string;
+	emoteSetId: string;
+	emoteSetName: string;
+	enabled: boolean;
+}
+
+/**
+ * Notes in `folder` and its subfolders use `streamer`'s emotes instead of
+ * the configured sources. `streamer` is a built-in streamer, a Twitch login
+ * or a Twitch ID.
+ */
+export interface FolderEmoteSource {
+	folder: string;
+	streamer: string;
+}
+
+export interface ResolvedTwitchUser {
+	twitchId: string;
+	login: string;
+	displayName: string;
+}
+
+export interface EmoteSetSummary {
+	id: string;
+	name: string;
+	emoteCount: number | null;
+	isActive: boolean;
+}
+
+export interface FetchedEmoteSet {
+	setId: string | null;
+	emotes: Map<string, EmoteRecord>;
+}
+
+export interface LoadedEmoteSet extends FetchedEmoteSet {
+	sourceId: string;
+	label: string;
+	provider: EmoteOrigin;
+	isGlobal: boolean;
+	fetchedAt: number;
+}
+
+/**
+ * Identifies one emote. For local emotes the ID is the image's vault path.
+ */
+export interface EmoteRef {
+	id: string;
+	provider: EmoteOrigin;
+}
+
+/**
+ * How often and how recently an emote was inserted, for ranking.
+ */
+export interface EmoteUsage extends EmoteRef {
+	count: number;
+	lastUsedAt: number;
+}
+
+/**
+ * A name the user picked for an emote. It points at the emote by ID, and
+ * `emoteName` remembers the emote's name for when it is not loaded.
+ */
+export interface EmoteAlias extends EmoteRef {
+	alias: string;
+	emoteName: string;
+}
+
+/**
+ * Everything the plugin knows about a single emote. `name` is the name used
+ * in the set, which can differ from the name the creator gave it.
+ */
+export interface EmoteRecord extends EmoteRef {
+	name: string;
+	originalName: string;
+	animated: boolean;
+	zeroWidth: boolean;
+	width: number | null;
+	height: number | null;
+	ownerName: string | null;
+	tags: string[];
+}
+
+export interface ResolvedEmote extends EmoteRecord {
+	sourceId: string;
+	sourceLabel: string;
+	isGlobal: boolean;
+}
+
+export interface EmoteLoadFailure {
+	sourceId: string;
+	label: string;
+	error: unknown;
+}
+
 export interface SevenTVSettings {
-	twitchUserId: string;
-	selectedStreamerId: string;
+	emoteSources: EmoteSourceConfig[];
+	includeGlobalEmotes: boolean;
 	cacheStrategy: CacheStrategy;
+	insertionFormat: InsertionFormat;
+	emoteSize: EmoteSize;
+	imageFormat: ImageFormat;
+	emoteUsage: EmoteUsage[];
+	triggerCharacter: string;
+	minQueryLength: number;
+	emoteAliases: EmoteAlias[];
+	localEmoteFolder: string;
+	folderEmoteSources: FolderEmoteSource[];
+	favoriteEmotes: EmoteRef[];
 	logLevel: LogLevel;
 	builtInStreamers: StreamerDefinition[];
 	compactEditorDisplay: boolean;
+	apiBaseUrl: string;
+	cdnBaseUrl: string;
 }
 
 export const DEFAULT_SETTINGS: SevenTVSettings = {
-	twitchUserId: '',
-	selectedStreamerId: '',
+	emoteSources: [],
+	includeGlobalEmotes: true,
 	cacheStrategy: 'on-demand',
+	insertionFormat: 'html',
+	emoteSize: 1,
+	imageFormat: 'webp',
+	emoteUsage: [],
+	triggerCharacter: ':',
+	minQueryLength: 1,
+	emoteAliases: [],
+	localEmoteFolder: '',
+	folderEmoteSources: [],
+	favoriteEmotes: [],
 	logLevel: 'none',
 	builtInStreamers: [],
-	compactEditorDisplay: true
+	compactEditorDisplay: true,
+	apiBaseUrl: DEFAULT_API_BASE_URL,
+	cdnBaseUrl: DEFAULT_CDN_BASE_URL
 };
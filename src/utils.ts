@@ -1,8 +1,22 @@
+import { EmoteOrigin, EmoteRecord, EmoteRef, EmoteSize } from './types';
+
+export interface SrcsetCandidate {
+	url: string;
+	density: number;
+}
+
+export interface PictureSource {
+	mimeType: string;
+	candidates: SrcsetCandidate[];
+}
+
 interface OnDemandPictureOptions {
-	name: string;
-	cachePath: string;
-	cdnUrl: string;
-	preferCache: boolean;
+	emote: EmoteRecord;
+	size: EmoteSize;
+	// Vault-relative, resolved per device when the emote is rendered.
+	cacheSource: PictureSource;
+	// Best format first; the last one is also the `<img>` fallback.
+	cdnSources: PictureSource[];
 }
 
 export function formatBytes(bytes: number): string {
@@ -15,21 +29,202 @@ export function formatBytes(bytes: number): string {
 	return `${parseFloat((bytes / Math.pow(unit, index)).toFixed(2))} ${sizes[index]}`;
 }
 
-export function createNoCacheEmoteHtml(name: string, id: string): string {
-	const safeName = escapeHtmlAttribute(name);
-	const emoteUrl = `https://cdn.7tv.app/emote/${encodeURIComponent(id)}/1x.webp`;
-	return `<span class="seven-tv-emote" title=":${safeName}:"><img class="seven-tv-inline-emote" loading="lazy" decoding="async" src="${escapeHtmlAttribute(emoteUrl)}" alt="${safeName}"></span>`;
+export function formatAge(timestamp: number, now = Date.now()): string {
+	const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+	if (seconds < 60) {
+		return 'just now';
+	}
+	const units: [number, string][] = [[86400, 'day'], [3600, 'hour'], [60, 'minute']];
+	for (const [unitSeconds, label] of units) {
+		if (seconds >= unitSeconds) {
+			const count = Math.floor(seconds / unitSeconds);
+			return `${count} ${label}${count === 1 ? '' : 's'} ago`;
+		}
+	}
+	return 'just now';
+}
+
+export interface TwitchUserReference {
+	type: 'id' | 'login' | 'seventv-user';
+	value: string;
+}
+
+/**
+ * Recognizes what the user typed into the Twitch field: a numeric ID, a
+ * login name, a twitch.tv channel URL or a 7tv.app user URL.
+ */
+export function parseTwitchUserReference(input: string): TwitchUserReference | null {
+	const value = input.trim();
+	if (/^\d{6,}$/.test(value)) {
+		return { type: 'id', value };
+	}
+
+	const sevenTVMatch = value.match(/7tv\.app\/users\/([0-9A-Za-z]+)/i);
+	if (sevenTVMatch) {
+		return { type: 'seventv-user', value: sevenTVMatch[1] };
+	}
+
+	const twitchMatch = value.match(/twitch\.tv\/([A-Za-z0-9_]+)/i);
+	const login = twitchMatch ? twitchMatch[1] : value.replace(/^@/, '');
+	if (/^[A-Za-z0-9_]{3,25}$/.test(login)) {
+		return { type: 'login', value: login };
+	}
+	return null;
+}
+
+/**
+ * Accepts a bare 7TV emote set ID or any URL whose path contains
+ * `/emote-sets/<id>`, such as links copied from 7tv.app.
+ */
+export function parseEmoteSetReference(input: string): string | null {
+	const value = input.trim();
+	const urlMatch = value.match(/\/emote-sets\/([0-9A-Za-z]+)/);
+	const candidate = urlMatch ? urlMatch[1] : value;
+	return /^(?:[0-9A-HJKMNP-TV-Z]{26}|[0-9a-f]{24})$/i.test(candidate) ? candidate : null;
+}
+
+export function getEmoteKey(ref: EmoteRef): string {
+	return `${ref.provider}:${ref.id}`;
+}
+
+export function createEmoteRecord(
+	provider: EmoteOrigin,
+	id: string,
+	name: string,
+	details: Partial<Omit<EmoteRecord, 'id' | 'name' | 'provider'>> = {}
+): EmoteRecord {
+	return {
+		id,
+		name,
+		provider,
+		originalName: details.originalName ?? name,
+		animated: details.animated ?? false,
+		zeroWidth: details.zeroWidth ?? false,
+		width: details.width ?? null,
+		height: details.height ?? null,
+		ownerName: details.ownerName ?? null,
+		tags: details.tags ?? []
+	};
+}
+
+export function createSourceId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createNoCacheEmoteHtml(emote: EmoteRecord, size: EmoteSize, cdnCandidates: SrcsetCandidate[]): string {
+	const safeName = escapeHtmlAttribute(emote.name);
+	const safeSrc = escapeHtmlAttribute(cdnCandidates[0].url);
+	const safeSrcset = escapeHtmlAttribute(formatSrcset(cdnCandidates));
+	return `<span class="seven-tv-emote" data-provider="${emote.provider}"${createSizeAttribute(size)} title=":${safeName}:"><img class="seven-tv-inline-emote" loading="lazy" decoding="async" src="${safeSrc}" srcset="${safeSrcset}"${createDimensionAttributes(emote, size)} alt="${safeName}"></span>`;
 }
 
 export function createOnDemandEmoteHtml(options: OnDemandPictureOptions): string {
-	const safeName = escapeHtmlAttribute(options.name);
-	const cacheSource = `<source srcset="${escapeHtmlAttribute(options.cachePath)}" type="image/webp">`;
-	const cdnSource = `<source srcset="${escapeHtmlAttribute(options.cdnUrl)}" type="image/webp">`;
-	const sourceOrder = options.preferCache
-		? `${cacheSource}${cdnSource}`
-		: `${cdnSource}${cacheSource}`;
-
-	return `<picture class="seven-tv-emote">${sourceOrder}<img class="seven-tv-inline-emote" loading="lazy" decoding="async" src="${escapeHtmlAttribute(options.cdnUrl)}" alt=":${safeName}:" title=":${safeName}:"></picture>`;
+	const safeName = escapeHtmlAttribute(options.emote.name);
+	const safeCachePaths = escapeHtmlAttribute(formatSrcset(options.cacheSource.candidates));
+	const cacheSource = `<source data-cache-path="${safeCachePaths}" type="${escapeHtmlAttribute(options.cacheSource.mimeType)}">`;
+	const cdnSources = options.cdnSources
+		.map((source) => `<source srcset="${escapeHtmlAttribute(formatSrcset(source.candidates))}" type="${escapeHtmlAttribute(source.mimeType)}">`)
+		.join('');
+	const fallbackSrc = options.cdnSources[options.cdnSources.length - 1].candidates[0].url;
+	// The cache source has no srcset until render time, when it gets this
+	// device's resource URLs or is dropped. Viewers without the plugin skip
+	// it and use the CDN sources.
+	return `<picture class="seven-tv-emote" data-provider="${options.emote.provider}"${createSizeAttribute(options.size)}>${cacheSource}${cdnSources}<img class="seven-tv-inline-emote" loading="lazy" decoding="async" src="${escapeHtmlAttribute(fallbackSrc)}"${createDimensionAttributes(options.emote, options.size)} alt=":${safeName}:" title=":${safeName}:"></picture>`;
+}
+
+/**
+ * Cache sources store vault-relative paths so notes work on every synced
+ * device. This fills in resource URLs for the current device, keeping only
+ * the resolutions cached here, or drops the source when none are so the CDN
+ * source is used.
+ */
+export function resolveCachedEmoteSources(
+	root: HTMLElement,
+	resolveCachePath: (path: string) => string | null
+): void {
+	for (const source of Array.from(root.querySelectorAll('source[data-cache-path]'))) {
+		const resolved: SrcsetCandidate[] = [];
+		for (const candidate of parseSrcset(source.getAttribute('data-cache-path') ?? '')) {
+			const resourceUrl = resolveCachePath(candidate.url);
+			if (resourceUrl) {
+				resolved.push({ url: resourceUrl, density: candidate.density });
+			}
+		}
+		if (resolved.length > 0) {
+			source.setAttribute('srcset', formatSrcset(resolved));
+		} else {
+			source.remove();
+		}
+	}
+}
+
+/**
+ * Moves an emote image down its sources when one fails to load: the failing
+ * `<source>` is dropped so the browser picks the next, then `fallback` is
+ * tried, and once nothing is left the emote shows as its `:name:` text.
+ */
+export function attachEmoteFallback(wrapper: HTMLElement, name: string, fallback: SrcsetCandidate[] | null): void {
+	const image = wrapper.querySelector('img');
+	if (!image) {
+		return;
+	}
+	let pendingFallback = fallback;
+	const onError = () => {
+		const failedUrl = image.currentSrc || image.src;
+		const failedSource = Array.from(wrapper.querySelectorAll('source')).find((source) =>
+			parseSrcset(source.getAttribute('srcset') ?? '').some((candidate) => candidate.url === failedUrl)
+		);
+		if (failedSource) {
+			failedSource.remove();
+			return;
+		}
+		if (pendingFallback && pendingFallback.length > 0) {
+			image.setAttribute('srcset', formatSrcset(pendingFallback));
+			image.setAttribute('src', pendingFallback[0].url);
+			pendingFallback = null;
+			return;
+		}
+		image.removeEventListener('error', onError);
+		wrapper.classList.add('seven-tv-emote-fallback');
+		wrapper.textContent = `:${name}:`;
+	};
+	image.addEventListener('error', onError);
+}
+
+export function formatSrcset(candidates: SrcsetCandidate[]): string {
+	return candidates
+		.map((candidate) => `${candidate.url} ${Number(candidate.density.toFixed(2))}x`)
+		.join(', ');
+}
+
+/**
+ * Reads `url 1x, url 2x` lists. A bare URL, as written before sizes
+ * existed, is a single 1x candidate.
+ */
+export function parseSrcset(value: string): SrcsetCandidate[] {
+	return value
+		.split(',')
+		.map((entry) => entry.trim().split(/\s+/))
+		.filter(([url]) => !!url)
+		.map(([url, descriptor]) => {
+			const density = descriptor ? parseFloat(descriptor) : 1;
+			return { url, density: Number.isFinite(density) && density > 0 ? density : 1 };
+		});
+}
+
+function createSizeAttribute(size: EmoteSize): string {
+	return size === 1 ? '' : ` data-size="${size}"`;
+}
+
+/**
+ * Width and height let the browser reserve the right aspect ratio before the
+ * image loads; the stylesheet still scales emotes to the line height.
+ */
+function createDimensionAttributes(emote: EmoteRecord, size: EmoteSize): string {
+	if (!emote.width || !emote.height) {
+		return '';
+	}
+	return ` width="${emote.width * size}" height="${emote.height * size}"`;
 }
 
 function escapeHtmlAttribute(value: string): string {